@@ -1,14 +1,24 @@
 
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import ChatInterface from './components/ChatInterface';
 import StateVisualizer from './components/StateVisualizer';
 import TranscriptModal from './components/TranscriptModal';
-import { CaseFile, Message, IntakeTurnResponse, AuditResponse, LatencyMetrics, LLMProvider, LLMConfig, DEFAULT_MODELS, ApiCallLog } from './types';
+import { CaseFile, CaseTypeId, FieldValidationResult, Message, IntakeTurnResponse, AuditResponse, LatencyMetrics, LLMProvider, LLMConfig, DEFAULT_MODELS, DEFAULT_THINKER_MODELS, ApiCallLog, StatusActor } from './types';
 import { INITIAL_CASE_FILE, SYSTEM_GREETING } from './constants';
-import { processTurn, auditCaseFile, setLLMConfig, getLLMConfig, getApiCallLogs } from './services/geminiService';
-import { getNextMissingSlot } from './services/stateLogic';
-import { fetchModelsForProvider, ModelInfo } from './services/llmProviders';
+import { processTurn, routeCaseType, auditCaseFile, setLLMConfig, getLLMConfig, setThinkerConfig, getThinkerConfig, getApiCallLogs } from './services/geminiService';
+import { getNextMissingSlot, mergeCaseFilePatch } from './services/stateLogic';
+import { applyCaseType } from './services/caseTypeRegistry';
+import { applyStatuteOfLimitations } from './services/statuteOfLimitations';
+import { applyJurisdictionNormalization } from './services/jurisdictionParser';
+import { advanceLifecycle, isCaseOpen } from './services/caseLifecycle';
+import { applyReferralRules } from './services/referrals';
+import { appendProvenance } from './services/provenance';
+import { applyFieldLocks, dropLockedEntries, editField, unlockField } from './services/fieldLocks';
+import { commitVersion, dropStaleEntries, filterStaleCorrections } from './services/caseVersioning';
+import { acceptCorrection, rejectCorrection, reviewAuditCorrections } from './services/auditReview';
+import { raiseClarification } from './services/clarifications';
+import { fetchModelsForProvider, checkProviderHealth, getProvider, listProviders, ModelInfo } from './services/llmProviders';
 
 // ENVIRONMENT CHECK
 const hasApiKey = !!(process.env.GEMINI_API_KEY || process.env.API_KEY);
@@ -16,54 +26,105 @@ const hasApiKey = !!(process.env.GEMINI_API_KEY || process.env.API_KEY);
 // ============================================================================
 // LLM SETTINGS PANEL COMPONENT
 // ============================================================================
+type ModelRole = 'responder' | 'thinker';
+
 interface LLMSettingsPanelProps {
   isOpen: boolean;
   onClose: () => void;
   config: LLMConfig;
-  onSave: (config: LLMConfig) => void;
+  thinkerConfig: LLMConfig;
+  onSave: (config: LLMConfig, thinkerConfig: LLMConfig) => void;
 }
 
-const LLMSettingsPanel: React.FC<LLMSettingsPanelProps> = ({ isOpen, onClose, config, onSave }) => {
-  const [provider, setProvider] = useState<LLMProvider>(config.provider);
-  const [apiKey, setApiKey] = useState(config.apiKey || '');
-  const [localEndpoint, setLocalEndpoint] = useState(config.localEndpoint || 'http://localhost:11434');
-  const [modelName, setModelName] = useState(config.modelName || '');
+// Only the settings the provider uses are stored
+const toProviderConfig = (draft: LLMConfig): LLMConfig => ({
+  provider: draft.provider,
+  apiKey: getProvider(draft.provider).apiKey !== 'none' ? draft.apiKey || undefined : undefined,
+  localEndpoint: draft.provider === 'local' ? (draft.localEndpoint || 'http://localhost:11434') : undefined,
+  baseUrl: getProvider(draft.provider).requiresBaseUrl ? draft.baseUrl?.trim() || undefined : undefined,
+  modelName: draft.modelName || undefined
+});
+
+const MODEL_FETCH_DEBOUNCE_MS = 600;
+
+const PROVIDER_ICONS: Partial<Record<LLMProvider, string>> = { internal: '🔵', local: '🖥️', openai: '🟢', claude: '🟠', openai_compatible: '🔌' };
+
+const LLMSettingsPanel: React.FC<LLMSettingsPanelProps> = ({ isOpen, onClose, config, thinkerConfig, onSave }) => {
+  // Responder and Thinker are configured independently (one draft each, edited in tabs)
+  const [role, setRole] = useState<ModelRole>('responder');
+  const [drafts, setDrafts] = useState<Record<ModelRole, LLMConfig>>({ responder: config, thinker: thinkerConfig });
+  const draft = drafts[role];
+  const defaultModels = role === 'thinker' ? DEFAULT_THINKER_MODELS : DEFAULT_MODELS;
+
+  const provider = draft.provider;
+  const apiKey = draft.apiKey || '';
+  const localEndpoint = draft.localEndpoint || 'http://localhost:11434';
+  const baseUrl = draft.baseUrl || '';
+  const modelName = draft.modelName || '';
+
+  const updateDraft = (patch: Partial<LLMConfig>) =>
+    setDrafts(prev => ({ ...prev, [role]: { ...prev[role], ...patch } }));
+  const setApiKey = (value: string) => updateDraft({ apiKey: value });
+  const setLocalEndpoint = (value: string) => updateDraft({ localEndpoint: value });
+  const setBaseUrl = (value: string) => updateDraft({ baseUrl: value });
+  const setModelName = (value: string) => updateDraft({ modelName: value });
+
+  // Start from the saved settings each time the panel opens
+  useEffect(() => {
+    if (isOpen) setDrafts({ responder: config, thinker: thinkerConfig });
+  }, [isOpen]);
 
   // Dynamic model loading
   const [availableModels, setAvailableModels] = useState<ModelInfo[]>([]);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
 
-  // Fetch models when provider, apiKey, or localEndpoint changes
+  // Fetch models once provider, apiKey, localEndpoint or baseUrl stop changing
+  // (debounced, so a half-typed key or URL does not fire a request per keystroke)
   useEffect(() => {
     if (!isOpen) return;
+    let cancelled = false;
 
     const loadModels = async () => {
       setIsLoadingModels(true);
       try {
-        const models = await fetchModelsForProvider(provider, apiKey, localEndpoint);
+        const models = await fetchModelsForProvider({ provider, apiKey, localEndpoint, baseUrl });
+        if (cancelled) return;
         setAvailableModels(models);
-        // Set default model if none selected
+        // Set default model if none selected (the role's default when the provider lists it)
         if (!modelName && models.length > 0) {
-          setModelName(models[0].id);
+          setModelName(models.some(m => m.id === defaultModels[provider]) ? defaultModels[provider] : models[0].id);
         }
       } catch (error) {
         console.error('Failed to load models:', error);
       } finally {
-        setIsLoadingModels(false);
+        if (!cancelled) setIsLoadingModels(false);
       }
     };
 
-    loadModels();
-  }, [isOpen, provider, apiKey, localEndpoint]);
+    const timer = setTimeout(loadModels, MODEL_FETCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, role, provider, apiKey, localEndpoint, baseUrl]);
+
+  // Connection test (provider health check); cleared when the provider settings change
+  const [health, setHealth] = useState<{ ok: boolean; error?: string } | 'checking' | null>(null);
+  const healthRequestRef = useRef(0);
+  useEffect(() => {
+    healthRequestRef.current++;
+    setHealth(null);
+  }, [role, provider, apiKey, localEndpoint, baseUrl]);
+
+  const handleTestConnection = async () => {
+    const request = ++healthRequestRef.current;
+    setHealth('checking');
+    const result = await checkProviderHealth({ provider, apiKey, localEndpoint, baseUrl });
+    if (request === healthRequestRef.current) setHealth(result); // Settings unchanged since the click
+  };
 
   const handleSave = () => {
-    const newConfig: LLMConfig = {
-      provider,
-      apiKey: (provider === 'openai' || provider === 'claude') ? apiKey : undefined,
-      localEndpoint: provider === 'local' ? localEndpoint : undefined,
-      modelName: modelName || undefined
-    };
-    onSave(newConfig);
+    onSave(toProviderConfig(drafts.responder), toProviderConfig(drafts.thinker));
     onClose();
   };
 
@@ -87,31 +148,38 @@ const LLMSettingsPanel: React.FC<LLMSettingsPanelProps> = ({ isOpen, onClose, co
               </svg>
             </button>
           </div>
-          <p className="text-white/70 text-sm mt-1">Configure the fast model (Responder) provider</p>
+          <p className="text-white/70 text-sm mt-1">Configure the fast model (Responder) and the auditing model (Thinker)</p>
         </div>
 
         {/* Content */}
         <div className="p-6 space-y-4">
+          {/* Model Role */}
+          <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 rounded-lg">
+            {(['responder', 'thinker'] as ModelRole[]).map((r) => (
+              <button
+                key={r}
+                onClick={() => setRole(r)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${role === r ? 'bg-white shadow text-purple-700' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {r === 'responder' ? '⚡ Responder' : '🧠 Thinker'}
+              </button>
+            ))}
+          </div>
+
           {/* Provider Selection */}
           <div>
             <label className="block text-sm font-bold text-slate-700 mb-2">Provider</label>
             <div className="grid grid-cols-2 gap-2">
-              {(['internal', 'local', 'openai', 'claude'] as LLMProvider[]).map((p) => (
+              {listProviders().map((p) => (
                 <button
-                  key={p}
-                  onClick={() => {
-                    setProvider(p);
-                    setModelName(''); // Reset model name on provider change
-                  }}
-                  className={`px-4 py-2 rounded-lg border-2 text-sm font-medium transition-all ${provider === p
+                  key={p.id}
+                  onClick={() => updateDraft({ provider: p.id, modelName: '' })} // Reset model name on provider change
+                  className={`px-4 py-2 rounded-lg border-2 text-sm font-medium transition-all ${provider === p.id
                     ? 'border-purple-500 bg-purple-50 text-purple-700'
                     : 'border-slate-200 hover:border-slate-300 text-slate-600'
                     }`}
                 >
-                  {p === 'internal' && '🔵 Gemini'}
-                  {p === 'local' && '🖥️ Local (Ollama)'}
-                  {p === 'openai' && '🟢 OpenAI'}
-                  {p === 'claude' && '🟠 Claude'}
+                  {PROVIDER_ICONS[p.id] ? `${PROVIDER_ICONS[p.id]} ` : ''}{p.label}
                 </button>
               ))}
             </div>
@@ -136,6 +204,32 @@ const LLMSettingsPanel: React.FC<LLMSettingsPanelProps> = ({ isOpen, onClose, co
             </div>
           )}
 
+          {/* Base URL + optional key (for OpenAI-compatible servers) */}
+          {provider === 'openai_compatible' && (
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">Base URL</label>
+                <input
+                  type="text"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  placeholder="http://localhost:8000/v1"
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">API Key (optional)</label>
+                <input
+                  type="password"
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  placeholder="Only if the server requires one"
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none"
+                />
+              </div>
+            </div>
+          )}
+
           {/* Local Endpoint (for Ollama) */}
           {provider === 'local' && (
             <div>
@@ -162,7 +256,7 @@ const LLMSettingsPanel: React.FC<LLMSettingsPanelProps> = ({ isOpen, onClose, co
               )}
             </label>
             <select
-              value={modelName || DEFAULT_MODELS[provider]}
+              value={modelName || defaultModels[provider]}
               onChange={(e) => setModelName(e.target.value)}
               disabled={isLoadingModels}
               className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none bg-white cursor-pointer disabled:opacity-50"
@@ -173,14 +267,28 @@ const LLMSettingsPanel: React.FC<LLMSettingsPanelProps> = ({ isOpen, onClose, co
                 </option>
               ))}
               {availableModels.length === 0 && (
-                <option value={DEFAULT_MODELS[provider]}>{DEFAULT_MODELS[provider]}</option>
+                <option value={defaultModels[provider]}>{defaultModels[provider] || 'Server default'}</option>
               )}
             </select>
-            <p className="text-xs text-slate-500 mt-1">
-              {availableModels.length > 0
-                ? `${availableModels.length} models available`
-                : 'Enter API key to load models'}
-            </p>
+            <div className="flex items-center justify-between mt-1">
+              <p className="text-xs text-slate-500">
+                {availableModels.length > 0
+                  ? `${availableModels.length} models available`
+                  : provider === 'openai_compatible' ? 'Enter the base URL to load models' : 'Enter API key to load models'}
+              </p>
+              <button
+                onClick={handleTestConnection}
+                disabled={health === 'checking'}
+                className="text-xs font-medium text-purple-600 hover:text-purple-800 disabled:opacity-50"
+              >
+                {health === 'checking' ? 'Testing...' : 'Test connection'}
+              </button>
+            </div>
+            {health && health !== 'checking' && (
+              <p className={`text-xs mt-1 ${health.ok ? 'text-emerald-600' : 'text-red-600'}`}>
+                {health.ok ? 'Connected' : `Connection failed: ${health.error}`}
+              </p>
+            )}
           </div>
 
           {/* Provider Info */}
@@ -194,19 +302,25 @@ const LLMSettingsPanel: React.FC<LLMSettingsPanelProps> = ({ isOpen, onClose, co
             {provider === 'local' && (
               <>
                 <p className="font-bold text-slate-700">🖥️ Local (Ollama)</p>
-                <p>Runs models locally. Install Ollama and pull a model like <code>llama3.2:1b</code>.</p>
+                <p>Runs models locally. Install Ollama and pull a model like <code>{defaultModels.local}</code>.{role === 'thinker' && ' The audit schema is enforced through Ollama\'s format option, with an 8k context.'}</p>
               </>
             )}
             {provider === 'openai' && (
               <>
                 <p className="font-bold text-slate-700">🟢 OpenAI</p>
-                <p>Uses gpt-4o-mini by default. Fast and cost-effective for chat applications.</p>
+                <p>Uses {defaultModels.openai} by default. {role === 'thinker' ? 'Strong at auditing the full case file.' : 'Fast and cost-effective for chat applications.'}</p>
               </>
             )}
             {provider === 'claude' && (
               <>
                 <p className="font-bold text-slate-700">🟠 Claude (Anthropic)</p>
-                <p>Uses claude-3-haiku by default. Fast with excellent instruction following.</p>
+                <p>Uses {defaultModels.claude} by default. {role === 'thinker' ? 'Careful reasoning over long histories.' : 'Fast with excellent instruction following.'}</p>
+              </>
+            )}
+            {provider === 'openai_compatible' && (
+              <>
+                <p className="font-bold text-slate-700">🔌 OpenAI-compatible</p>
+                <p>Any server speaking the OpenAI API (vLLM, LM Studio, llama.cpp server). Models are listed from its /v1/models; the server must support JSON schema response formats.</p>
               </>
             )}
           </div>
@@ -232,6 +346,17 @@ const LLMSettingsPanel: React.FC<LLMSettingsPanelProps> = ({ isOpen, onClose, co
   );
 };
 
+// ============================================================================
+// SYMBOLIC RULES (after a Thinker correction or a staff edit)
+// ============================================================================
+// Re-normalize the jurisdiction, re-run the referral rules and the SOL engine, and advance the lifecycle
+const applySymbolicRules = (caseFile: CaseFile, actor: StatusActor): CaseFile => {
+  const normalized = mergeCaseFilePatch(caseFile, applyJurisdictionNormalization(caseFile));
+  const referred = mergeCaseFilePatch(normalized, applyReferralRules(normalized, actor));
+  const assessed = mergeCaseFilePatch(referred, applyStatuteOfLimitations(referred));
+  return mergeCaseFilePatch(assessed, advanceLifecycle(assessed, actor));
+};
+
 // ============================================================================
 // MAIN APP COMPONENT
 // ============================================================================
@@ -272,6 +397,7 @@ const App: React.FC = () => {
   // STATE: LLM Settings
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [llmConfig, setLlmConfigState] = useState<LLMConfig>(getLLMConfig());
+  const [thinkerConfig, setThinkerConfigState] = useState<LLMConfig>(getThinkerConfig());
 
   // Load settings from localStorage on mount
   useEffect(() => {
@@ -285,19 +411,66 @@ const App: React.FC = () => {
         console.error('Failed to load LLM config from localStorage', e);
       }
     }
+    const savedThinkerConfig = localStorage.getItem('thinkerLlmConfig');
+    if (savedThinkerConfig) {
+      try {
+        const parsed = JSON.parse(savedThinkerConfig) as LLMConfig;
+        setThinkerConfigState(parsed);
+        setThinkerConfig(parsed);
+      } catch (e) {
+        console.error('Failed to load Thinker config from localStorage', e);
+      }
+    }
   }, []);
 
   // Handle settings save
-  const handleSaveSettings = (config: LLMConfig) => {
+  const handleSaveSettings = (config: LLMConfig, thinker: LLMConfig) => {
     setLlmConfigState(config);
     setLLMConfig(config);
     localStorage.setItem('llmConfig', JSON.stringify(config));
-    console.log('LLM Config saved:', config);
+    setThinkerConfigState(thinker);
+    setThinkerConfig(thinker);
+    localStorage.setItem('thinkerLlmConfig', JSON.stringify(thinker));
+    console.log('LLM Config saved:', config, 'Thinker:', thinker);
   };
 
-  // COMPUTED: Check if workflow is finished
+  // Switch practice area (adds the type's vectors, keeps answers already given)
+  const handleCaseTypeChange = (caseType: CaseTypeId) => {
+    setCaseFile((prev) => commitVersion(prev, {
+      ...applyCaseType(prev, caseType),
+      classification: { case_type: caseType, confidence: 1, method: 'manual', confirmed: true, reasoning: 'Selected by intake staff.' }
+    }));
+  };
+
+  // Staff inline edit: same validators as the models, then the field is locked
+  const handleFieldEdit = (fieldId: string, text: string): FieldValidationResult => {
+    const { validation } = editField(caseFile, fieldId, text);
+    if (validation.valid) {
+      // Rebuilt from the latest state so history and locks stay in step with model merges
+      setCaseFile((prev) => {
+        const { patch } = editField(prev, fieldId, text);
+        return patch ? commitVersion(prev, applySymbolicRules(mergeCaseFilePatch(prev, patch), 'staff')) : prev;
+      });
+    }
+    return validation;
+  };
+
+  const handleFieldUnlock = (fieldId: string) => {
+    setCaseFile((prev) => commitVersion(prev, mergeCaseFilePatch(prev, unlockField(prev, fieldId))));
+  };
+
+  // Staff review of held Thinker corrections
+  const handleCorrectionAccept = (id: string) => {
+    setCaseFile((prev) => commitVersion(prev, applySymbolicRules(mergeCaseFilePatch(prev, acceptCorrection(prev, id)), 'staff')));
+  };
+
+  const handleCorrectionReject = (id: string) => {
+    setCaseFile((prev) => commitVersion(prev, mergeCaseFilePatch(prev, rejectCorrection(prev, id))));
+  };
+
+  // COMPUTED: Check if workflow is finished (completed, or closed out by rejection/referral)
   const isCaseComplete = useMemo(() => {
-    return getNextMissingSlot(caseFile) === "COMPLETE";
+    return getNextMissingSlot(caseFile) === "COMPLETE" || !isCaseOpen(caseFile);
   }, [caseFile]);
 
   // FUNCTION: Perform Audit (Thinker)
@@ -307,7 +480,8 @@ const App: React.FC = () => {
     const startTime = performance.now();
 
     try {
-      const historyForApi = messagesSnapshot.map(m => ({ role: m.role, content: m.content }));
+      // Message ids let the Thinker's quotes point back to the client's words
+      const historyForApi = messagesSnapshot.map(m => ({ role: m.role, content: m.content, id: m.id }));
 
       // Call the Slow/Reasoning Model (Thinker)
       const auditResult: AuditResponse = await auditCaseFile(currentCaseFileSnapshot, historyForApi);
@@ -316,24 +490,28 @@ const App: React.FC = () => {
 
       setApiCallLogs(getApiCallLogs());
 
-      // If the auditor suggests changes
-      if (auditResult.corrected_data && Object.keys(auditResult.corrected_data).length > 0) {
-        console.log("⚠️ Thinker applied corrections:", auditResult.corrected_data);
+      // If the auditor suggests changes or has a question for the client
+      const hasCorrections = !!auditResult.corrected_data && Object.keys(auditResult.corrected_data).length > 0;
+      if (hasCorrections || auditResult.verification_prompt) {
+        if (hasCorrections) console.log("⚠️ Thinker proposed corrections:", auditResult.corrected_data);
 
+        // Merge per vector (covers whichever vectors the active case type audits, minus staff-locked fields
+        // and fields the conversation changed after the audited snapshot). Corrections the review policy
+        // holds wait for staff; the rest are applied and the symbolic rules re-run
         setCaseFile((prev) => {
-          const updated = { ...prev };
-          const patches = auditResult.corrected_data;
-          // Deep merge specific vectors monitored by audit
-          if (patches.contact) updated.contact = { ...updated.contact, ...patches.contact };
-          if (patches.incident) updated.incident = { ...updated.incident, ...patches.incident };
-          if (patches.damages) updated.damages = { ...updated.damages, ...patches.damages };
-          if (patches.liability) updated.liability = { ...updated.liability, ...patches.liability };
-          if (patches.admin) updated.admin = { ...updated.admin, ...patches.admin };
-          return updated;
+          const { patch, discarded } = filterStaleCorrections(prev, auditResult.corrected_data, auditResult.base_version ?? prev.version);
+          const entries = dropStaleEntries(dropLockedEntries(prev, auditResult.provenance), discarded);
+          const reviewed = reviewAuditCorrections(prev, applyFieldLocks(prev, patch), entries, auditResult.audit_reasoning);
+          const merged = mergeCaseFilePatch(prev, {
+            ...reviewed.patch,
+            ...appendProvenance(prev, reviewed.provenance),
+            ...raiseClarification(prev, auditResult)
+          });
+          return commitVersion(prev, applySymbolicRules(merged, 'thinker'));
         });
 
-        // NOTE: Thinker is now "Quiet". It logs but does not interrupt.
-        // If a field was invalidated (set to null), the Responder will pick it up in the next turn.
+        // NOTE: Thinker does not interrupt. A field it invalidated (set to null) and its
+        // verification prompt are both picked up by the Responder in the next turn.
       }
     } catch (e) {
       console.error("Thinker Error", e);
@@ -344,6 +522,17 @@ const App: React.FC = () => {
     }
   };
 
+  // The Thinker audits the case file the Responder's patch produced. setCaseFile applies the
+  // patch lazily (against the latest state, so parallel Thinker writes survive), so the audit
+  // starts once that version has rendered.
+  const pendingAuditRef = useRef<Message[] | null>(null);
+  useEffect(() => {
+    const messagesSnapshot = pendingAuditRef.current;
+    if (!messagesSnapshot) return;
+    pendingAuditRef.current = null;
+    performAudit(caseFile, messagesSnapshot);
+  }, [caseFile.version]);
+
   // ACTION: Handle User Input
   const handleSendMessage = useCallback(async (text: string) => {
     const startTime = performance.now();
@@ -363,9 +552,12 @@ const App: React.FC = () => {
       const currentMessagesSnapshot = [...messages, userMsg];
       const currentCaseFileSnapshot = { ...caseFile };
 
-      // 2. Call Responder (Fast Model) - Primary path
+      // 2. Route to a practice area first (ahead of the SOP), then call Responder (Fast Model)
       const historyForApi = messages.map(m => ({ role: m.role, content: m.content }));
-      const result: IntakeTurnResponse & { latencyMetrics?: LatencyMetrics } = await processTurn(historyForApi, caseFile, text);
+      const isRouting = caseFile.case_type === null && isCaseOpen(caseFile);
+      const result: IntakeTurnResponse & { latencyMetrics?: LatencyMetrics } = isRouting
+        ? await routeCaseType(historyForApi, caseFile, text)
+        : await processTurn(historyForApi, caseFile, text, userMsg.id);
 
       const endTime = performance.now();
       setTurnAroundTime(Math.round(endTime - startTime));
@@ -381,22 +573,12 @@ const App: React.FC = () => {
       setApiCallLogs(getApiCallLogs());
 
       // 3. Update the Case File (Symbolic State)
-      let updatedCaseFile = { ...caseFile };
-      setCaseFile((prev) => {
-        const updated = { ...prev };
-        const data = result.extracted_data;
-
-        // Manual Deep Merge ensures we only update fields returned by the AI
-        if (data.contact) updated.contact = { ...updated.contact, ...data.contact };
-        if (data.incident) updated.incident = { ...updated.incident, ...data.incident };
-        if (data.liability) updated.liability = { ...updated.liability, ...data.liability };
-        if (data.damages) updated.damages = { ...updated.damages, ...data.damages };
-        if (data.admin) updated.admin = { ...updated.admin, ...data.admin };
-        if (data.status) updated.status = data.status as any;
-
-        updatedCaseFile = updated;
-        return updated;
-      });
+      // Per-vector merge ensures we only update fields returned by the AI (never staff-locked ones;
+      // provenance appended to the latest log)
+      setCaseFile((prev) => commitVersion(prev, mergeCaseFilePatch(prev, {
+        ...applyFieldLocks(prev, result.extracted_data),
+        ...appendProvenance(prev, dropLockedEntries(prev, result.provenance))
+      })));
 
       // 4. Update UI with AI Response
       setLastThought(result.thought_trace);
@@ -410,9 +592,11 @@ const App: React.FC = () => {
       };
       setMessages((prev) => [...prev, botMsg]);
 
-      // 5. Run Thinker in PARALLEL (non-blocking) for validation
-      // Thinker runs on every turn now, not just every 5th turn
-      performAudit(updatedCaseFile, [...currentMessagesSnapshot, botMsg]);
+      // 5. Run Thinker in PARALLEL (non-blocking) for validation, on the version committed above
+      // Thinker runs on every SOP turn (not while routing: there is no practice area to audit yet)
+      if (!isRouting) {
+        pendingAuditRef.current = [...currentMessagesSnapshot, botMsg];
+      }
 
     } catch (error) {
       console.error("Interaction failed", error);
@@ -429,8 +613,8 @@ const App: React.FC = () => {
     }
   }, [messages, caseFile]);
 
-  // BLOCKER: Missing API Key (only for internal provider)
-  if (!hasApiKey && llmConfig.provider === 'internal') {
+  // BLOCKER: Missing API Key (only when the Responder or the Thinker uses the internal provider)
+  if (!hasApiKey && (llmConfig.provider === 'internal' || thinkerConfig.provider === 'internal')) {
     return (
       <div className="h-screen flex items-center justify-center bg-slate-100">
         <div className="bg-white p-8 rounded-lg shadow-lg max-w-md text-center">
@@ -451,6 +635,7 @@ const App: React.FC = () => {
             isOpen={isSettingsOpen}
             onClose={() => setIsSettingsOpen(false)}
             config={llmConfig}
+            thinkerConfig={thinkerConfig}
             onSave={handleSaveSettings}
           />
         </div>
@@ -498,6 +683,12 @@ const App: React.FC = () => {
             auditTAT={auditTAT}
             apiCallLogs={apiCallLogs}
             currentProvider={llmConfig.provider}
+            thinkerProvider={thinkerConfig.provider}
+            onCaseTypeChange={handleCaseTypeChange}
+            onFieldEdit={handleFieldEdit}
+            onFieldUnlock={handleFieldUnlock}
+            onCorrectionAccept={handleCorrectionAccept}
+            onCorrectionReject={handleCorrectionReject}
           />
 
           {/* Settings Button */}
@@ -534,6 +725,7 @@ const App: React.FC = () => {
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
         config={llmConfig}
+        thinkerConfig={thinkerConfig}
         onSave={handleSaveSettings}
       />
     </div>
@@ -0,0 +1,44 @@
+import { Type } from "@google/genai";
+import { CaseTypeModule } from '../types';
+import sopDocument from '../sop/auto_accident.sop.json';
+
+/**
+ * AUTO ACCIDENT (Motor Vehicle)
+ * The original intake. Uses the core incident/liability vectors plus the
+ * vehicle and claimant-role fields that only make sense on the road.
+ */
+export const AUTO_ACCIDENT: CaseTypeModule = {
+  id: 'auto_accident',
+  label: 'Auto Accident',
+  description: 'Motor vehicle collisions involving drivers, passengers or pedestrians.',
+  sopDocument,
+  vectors: {},
+  schemaDefinitions: {
+    incident: {
+      properties: {
+        vehicle_description: { type: Type.STRING },
+        other_vehicles: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              description: { type: Type.STRING },
+              driver_name: { type: Type.STRING }
+            }
+          }
+        },
+      }
+    },
+    liability: {
+      properties: {
+        claimant_role: { type: Type.STRING, enum: ["Driver", "Passenger", "Pedestrian"] },
+      }
+    }
+  },
+  keywords: ["car", "vehicle", "truck", "motorcycle", "collision", "crash", "rear-ended", "rear ended", "intersection", "highway", "driver", "traffic", "hit by a car", "uber", "lyft"],
+  auditRules: [
+    "'liability.claimant_role' must be Driver, Passenger or Pedestrian. If it contradicts history, CORRECT IT.",
+    "'incident.vehicle_description' should include Year, Make and Model when the user gave them.",
+    "'incident.other_vehicles' lists every OTHER vehicle the user mentioned (not their own).",
+  ]
+};
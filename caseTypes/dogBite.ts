@@ -0,0 +1,37 @@
+import { Type } from "@google/genai";
+import { CaseTypeModule } from '../types';
+import sopDocument from '../sop/dog_bite.sop.json';
+
+/**
+ * DOG BITE
+ * Animal attacks; owner identity and prior aggression drive liability.
+ */
+export const DOG_BITE: CaseTypeModule = {
+  id: 'dog_bite',
+  label: 'Dog Bite',
+  description: 'Injuries from a dog bite or animal attack.',
+  sopDocument,
+  vectors: {
+    animal: {
+      animal_owner: null,
+      animal_description: null,
+      prior_aggression_known: null,
+      animal_control_notified: null,
+    }
+  },
+  schemaDefinitions: {
+    animal: {
+      type: Type.OBJECT,
+      properties: {
+        animal_owner: { type: Type.STRING },
+        animal_description: { type: Type.STRING },
+        prior_aggression_known: { type: Type.BOOLEAN },
+        animal_control_notified: { type: Type.BOOLEAN },
+      }
+    }
+  },
+  keywords: ["dog", "bite", "bit", "bitten", "pit bull", "animal", "leash", "attacked by"],
+  auditRules: [
+    "'animal.prior_aggression_known' is true ONLY if the user described an earlier bite or threat by the same dog. Rumours or breed reputation do not count.",
+  ]
+};
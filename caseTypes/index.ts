@@ -0,0 +1,19 @@
+import { CaseTypeModule } from '../types';
+import { AUTO_ACCIDENT } from './autoAccident';
+import { SLIP_AND_FALL } from './slipAndFall';
+import { DOG_BITE } from './dogBite';
+import { MEDICAL_MALPRACTICE } from './medicalMalpractice';
+import { WORKERS_COMP } from './workersComp';
+
+/**
+ * Practice areas registered at startup, in display order.
+ * To add a new intake type: author its SOP document in sop/, create a module
+ * here and append it to this list.
+ */
+export const BUILT_IN_CASE_TYPES: CaseTypeModule[] = [
+  AUTO_ACCIDENT,
+  SLIP_AND_FALL,
+  DOG_BITE,
+  MEDICAL_MALPRACTICE,
+  WORKERS_COMP,
+];
@@ -0,0 +1,40 @@
+import { Type } from "@google/genai";
+import { CaseTypeModule } from '../types';
+import sopDocument from '../sop/medical_malpractice.sop.json';
+
+/**
+ * MEDICAL MALPRACTICE
+ * Negligent care by a provider. `incident.accident_date` holds the date of treatment.
+ */
+export const MEDICAL_MALPRACTICE: CaseTypeModule = {
+  id: 'medical_malpractice',
+  label: 'Medical Malpractice',
+  description: 'Harm caused by a doctor, nurse, hospital or other healthcare provider.',
+  sopDocument,
+  vectors: {
+    malpractice: {
+      provider_name: null,
+      facility_name: null,
+      procedure_description: null,
+      error_description: null,
+      discovery_date: null,
+    }
+  },
+  schemaDefinitions: {
+    malpractice: {
+      type: Type.OBJECT,
+      properties: {
+        provider_name: { type: Type.STRING },
+        facility_name: { type: Type.STRING },
+        procedure_description: { type: Type.STRING },
+        error_description: { type: Type.STRING },
+        discovery_date: { type: Type.STRING },
+      }
+    }
+  },
+  keywords: ["doctor", "surgeon", "surgery", "hospital", "nurse", "misdiagnosis", "misdiagnosed", "malpractice", "medication error", "prescription", "anesthesia", "botched"],
+  auditRules: [
+    "'incident.accident_date' is the date of TREATMENT. 'malpractice.discovery_date' is when the user realized the harm; both must be YYYY-MM-DD.",
+    "'malpractice.discovery_date' cannot be before 'incident.accident_date'. If it is, set it to NULL.",
+  ]
+};
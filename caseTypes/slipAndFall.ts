@@ -0,0 +1,40 @@
+import { Type } from "@google/genai";
+import { CaseTypeModule } from '../types';
+import sopDocument from '../sop/slip_and_fall.sop.json';
+
+/**
+ * SLIP AND FALL (Premises Liability)
+ * Falls caused by a dangerous condition on someone else's property.
+ */
+export const SLIP_AND_FALL: CaseTypeModule = {
+  id: 'slip_and_fall',
+  label: 'Slip and Fall',
+  description: 'Premises liability: injuries from hazards on property owned or managed by others.',
+  sopDocument,
+  vectors: {
+    premises: {
+      property_type: null,
+      property_owner: null,
+      hazard_description: null,
+      warning_signs_present: null,
+      incident_reported_to_owner: null,
+    }
+  },
+  schemaDefinitions: {
+    premises: {
+      type: Type.OBJECT,
+      properties: {
+        property_type: { type: Type.STRING, enum: ["Commercial", "Residential", "Public"] },
+        property_owner: { type: Type.STRING },
+        hazard_description: { type: Type.STRING },
+        warning_signs_present: { type: Type.BOOLEAN },
+        incident_reported_to_owner: { type: Type.BOOLEAN },
+      }
+    }
+  },
+  keywords: ["slip", "slipped", "trip", "tripped", "fell", "fall", "wet floor", "ice", "icy", "stairs", "sidewalk", "store", "premises", "puddle"],
+  auditRules: [
+    "'premises.property_type' must be Commercial (a business), Residential (a private home) or Public (government property).",
+    "'premises.hazard_description' must name a concrete condition (e.g. \"wet floor\"). If the user only said they \"slipped\", set it to NULL.",
+  ]
+};
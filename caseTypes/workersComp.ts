@@ -0,0 +1,39 @@
+import { Type } from "@google/genai";
+import { CaseTypeModule } from '../types';
+import sopDocument from '../sop/workers_comp.sop.json';
+
+/**
+ * WORKERS' COMPENSATION
+ * Injuries sustained on the job; employer notice is the key deadline.
+ */
+export const WORKERS_COMP: CaseTypeModule = {
+  id: 'workers_comp',
+  label: "Workers' Comp",
+  description: 'Injuries sustained while performing work duties.',
+  sopDocument,
+  vectors: {
+    employment: {
+      employer_name: null,
+      job_title: null,
+      on_the_job: null,
+      injury_reported_to_employer: null,
+      report_date: null,
+    }
+  },
+  schemaDefinitions: {
+    employment: {
+      type: Type.OBJECT,
+      properties: {
+        employer_name: { type: Type.STRING },
+        job_title: { type: Type.STRING },
+        on_the_job: { type: Type.BOOLEAN },
+        injury_reported_to_employer: { type: Type.BOOLEAN },
+        report_date: { type: Type.STRING },
+      }
+    }
+  },
+  keywords: ["work", "job", "employer", "boss", "workplace", "on the job", "warehouse", "construction site", "coworker", "shift", "forklift"],
+  auditRules: [
+    "'employment.report_date' must be YYYY-MM-DD and only set when 'employment.injury_reported_to_employer' is true.",
+  ]
+};
@@ -1,7 +1,15 @@
 
 import React, { useState } from 'react';
-import { CaseFile, LatencyMetrics, LogEntry, ApiCallLog, LLMProvider } from '../types';
-import { INTAKE_STEPS } from '../constants';
+import { AuditReviewPolicy, CaseFile, CaseStatus, CaseTypeId, FieldValidationResult, LatencyMetrics, LogEntry, ApiCallLog, LLMProvider } from '../types';
+import { getFieldValue, getStepStatus, getSopProgress, getActiveSteps, needsConfirmation } from '../services/stateLogic';
+import { listCaseTypes, getActiveCaseType } from '../services/caseTypeRegistry';
+import { getOutbox } from '../services/messaging';
+import { isCaseOpen } from '../services/caseLifecycle';
+import { scoreCase } from '../services/caseScoring';
+import { getEconomicDamages } from '../services/damagesCalculator';
+import { getFieldProvenance } from '../services/provenance';
+import { getFieldEditor, isFieldLocked, toEditorText } from '../services/fieldLocks';
+import { getAuditReviewPolicy, getPendingCorrections, isCorrectionOutdated, setAuditReviewPolicy } from '../services/auditReview';
 
 interface StateVisualizerProps {
   caseFile: CaseFile;
@@ -12,24 +20,36 @@ interface StateVisualizerProps {
   auditTAT: number | null;
   apiCallLogs?: ApiCallLog[];
   currentProvider?: LLMProvider;
+  thinkerProvider?: LLMProvider;
+  onCaseTypeChange?: (caseType: CaseTypeId) => void;
+  onFieldEdit?: (fieldId: string, text: string) => FieldValidationResult;
+  onFieldUnlock?: (fieldId: string) => void;
+  onCorrectionAccept?: (id: string) => void;
+  onCorrectionReject?: (id: string) => void;
 }
 
-// Helper to safely get value from nested object using string path "vector.field"
-const getValue = (caseFile: CaseFile, path: string) => {
-  const [vector, field] = path.split('.');
-  const vectorObj = caseFile[vector as keyof CaseFile];
-  if (vectorObj && typeof vectorObj === 'object') {
-    // @ts-ignore
-    return vectorObj[field];
-  }
-  return null;
+const REVIEW_POLICY_LABELS: Record<AuditReviewPolicy, string> = {
+  auto: 'Apply all',
+  review_overwrites: 'Review changes',
+  review_all: 'Review all'
 };
 
+// Happy path of the case lifecycle; REJECTED / REFERRED are exits shown beside it
+const LIFECYCLE_PIPELINE: CaseStatus[] = ['QUALIFICATION', 'INTAKE', 'CLOSED'];
+
 // Formatting helper for Structs
 const formatValue = (key: string, value: any): string => {
   if (value === null) return "Pending...";
   if (typeof value === 'boolean') return value ? 'Yes' : 'No';
 
+  // Lists (parties, vehicles, witnesses): one entry per line segment
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "None";
+    return value
+      .map(item => Object.values(item || {}).filter(v => v !== null && v !== undefined && v !== '').join(' · '))
+      .join('; ');
+  }
+
   // Complex Objects
   if (typeof value === 'object') {
     if (key === 'damages.injury_details') {
@@ -52,34 +72,14 @@ const formatValue = (key: string, value: any): string => {
       if (value.has_lost_wages === false) return "No";
       return `Yes: $${value.amount || "[MISSING AMT]"}`;
     }
-  }
 
-  return String(value);
-};
-
-// Check if step is fully complete (logic mirror of stateLogic.ts)
-const isComplete = (key: string, value: any): boolean => {
-  if (value === null) return false;
-
-  // Struct Checks: Return false if the primary discriminator is null
-  if (key === 'damages.injury_details') {
-    if (value.has_injury === null) return false;
-    return !(value.has_injury === true && !value.description);
-  }
-  if (key === 'liability.fault_admission') {
-    if (value.status === null) return false;
-    return !(value.status === 'Yes' && !value.statement);
-  }
-  if (key === 'damages.hospitalization_details') {
-    if (value.was_hospitalized === null) return false;
-    return !(value.was_hospitalized === true && !value.duration);
-  }
-  if (key === 'damages.lost_wages_details') {
-    if (value.has_lost_wages === null) return false;
-    return !(value.has_lost_wages === true && !value.amount);
+    // Generic struct (e.g. contributed by a case type): list the filled members
+    const filled = Object.values(value).filter(v => v !== null && v !== undefined);
+    if (filled.length === 0) return "Pending...";
+    return filled.map(v => typeof v === 'boolean' ? (v ? 'Yes' : 'No') : String(v)).join(', ');
   }
 
-  return true;
+  return String(value);
 };
 
 const StateVisualizer: React.FC<StateVisualizerProps> = ({
@@ -90,23 +90,70 @@ const StateVisualizer: React.FC<StateVisualizerProps> = ({
   auditStatus,
   auditTAT,
   apiCallLogs = [],
-  currentProvider = 'internal'
+  currentProvider = 'internal',
+  thinkerProvider = 'internal',
+  onCaseTypeChange,
+  onFieldEdit,
+  onFieldUnlock,
+  onCorrectionAccept,
+  onCorrectionReject
 }) => {
   const [isMetricsOpen, setIsMetricsOpen] = useState(true);
   const [isAuditOpen, setIsAuditOpen] = useState(false);
   const [isApiLogsOpen, setIsApiLogsOpen] = useState(false);
   const [expandedLogIndex, setExpandedLogIndex] = useState<number | null>(null);
+  const [isOutboxOpen, setIsOutboxOpen] = useState(true);
+  const [expandedProvenanceField, setExpandedProvenanceField] = useState<string | null>(null);
+  const [editingField, setEditingField] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [editError, setEditError] = useState<string | null>(null);
+  const [reviewPolicy, setReviewPolicy] = useState<AuditReviewPolicy>(getAuditReviewPolicy());
+
+  const changeReviewPolicy = (policy: AuditReviewPolicy) => {
+    setAuditReviewPolicy(policy);
+    setReviewPolicy(policy);
+  };
+
+  const startEditing = (fieldId: string) => {
+    setEditingField(fieldId);
+    setEditText(toEditorText(getFieldValue(caseFile, fieldId)));
+    setEditError(null);
+  };
+
+  const saveEdit = () => {
+    if (!editingField || !onFieldEdit) return;
+    const result = onFieldEdit(editingField, editText);
+    if (result.valid) {
+      setEditingField(null);
+    } else {
+      setEditError(result.message || `Invalid value (${result.code})`);
+    }
+  };
+
+  // Local outbox is re-read on every render (codes arrive between turns)
+  const outbox = getOutbox();
+
+  // Thinker corrections, newest first
+  const auditCorrections = [...(caseFile.audit_corrections || [])].reverse();
+  const pendingCount = getPendingCorrections(caseFile).length;
 
   // LOGIC: Determine the active step
-  const isCaseActive = ['QUALIFICATION', 'INTAKE'].includes(caseFile.status);
+  const isCaseActive = isCaseOpen(caseFile);
+
+  // Steps of the active practice area
+  const caseType = getActiveCaseType(caseFile);
+  const steps = getActiveSteps(caseFile);
+
+  // Resolve every step once (complete / missing / not_applicable / deferred)
+  const stepStatuses = steps.map(step => getStepStatus(step, caseFile));
+  const progress = getSopProgress(caseFile);
+  const caseScore = scoreCase(caseFile);
+  const economicDamages = getEconomicDamages(caseFile);
 
-  // Find index of first missing slot
+  // Find index of first missing slot (skipped steps are never active)
   let activeStepIndex = -1;
   if (isCaseActive && caseFile.admin.prior_representation !== true) {
-    activeStepIndex = INTAKE_STEPS.findIndex(step => {
-      const val = getValue(caseFile, step.id);
-      return !isComplete(step.id, val);
-    });
+    activeStepIndex = stepStatuses.findIndex(status => status === 'missing');
   }
 
 
@@ -121,7 +168,7 @@ const StateVisualizer: React.FC<StateVisualizerProps> = ({
           </svg>
           SOP Workflow Tracker
         </h2>
-        <p className="text-xs text-slate-400 mt-1">Linear Procedure Enforcement</p>
+        <p className="text-xs text-slate-400 mt-1">Conditional Procedure Enforcement</p>
       </div>
 
       {/* CONTENT */}
@@ -204,6 +251,12 @@ const StateVisualizer: React.FC<StateVisualizerProps> = ({
           >
             <div className="flex items-center gap-2">
               <span>Thinker (Validator)</span>
+              {thinkerProvider !== 'internal' && (
+                <span className="px-1.5 py-0.5 rounded bg-slate-200 text-slate-600 text-[10px]">{thinkerProvider.toUpperCase()}</span>
+              )}
+              {pendingCount > 0 && (
+                <span className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 text-[10px]">{pendingCount} to review</span>
+              )}
               {auditStatus === 'ACTIVE' && (
                 <span className="flex h-2 w-2">
                   <span className="animate-ping absolute inline-flex h-2 w-2 rounded-full bg-amber-400 opacity-75"></span>
@@ -229,6 +282,77 @@ const StateVisualizer: React.FC<StateVisualizerProps> = ({
                   {auditTAT !== null ? `${auditTAT} ms` : '0 ms'}
                 </span>
               </div>
+              <div className="col-span-2 flex items-center justify-between">
+                <span className="text-[10px] text-slate-400 uppercase tracking-wide">Corrections</span>
+                <select
+                  value={reviewPolicy}
+                  onChange={(e) => changeReviewPolicy(e.target.value as AuditReviewPolicy)}
+                  className="text-[10px] border border-slate-200 rounded px-1 py-0.5 bg-white text-slate-600"
+                >
+                  {(Object.keys(REVIEW_POLICY_LABELS) as AuditReviewPolicy[]).map(policy => (
+                    <option key={policy} value={policy}>{REVIEW_POLICY_LABELS[policy]}</option>
+                  ))}
+                </select>
+              </div>
+              {auditCorrections.length === 0 ? (
+                <div className="col-span-2 text-[10px] text-slate-400 italic">No Thinker corrections yet.</div>
+              ) : (
+                <ul className="col-span-2 space-y-1 max-h-64 overflow-y-auto">
+                  {auditCorrections.map(correction => {
+                    const outdated = correction.status === 'pending' && isCorrectionOutdated(caseFile, correction);
+                    return (
+                      <li key={correction.id} className={`p-2 rounded border text-[10px] font-mono ${correction.status === 'pending' ? 'border-amber-200 bg-amber-50' : 'border-slate-100 bg-slate-50'}`}>
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-bold text-slate-700">{correction.field}</span>
+                          <span className={`uppercase ${correction.status === 'rejected' ? 'text-red-500' : correction.status === 'pending' ? 'text-amber-600' : 'text-slate-400'}`}>
+                            {outdated ? 'outdated' : correction.status}
+                          </span>
+                        </div>
+                        <div className="text-slate-600">
+                          <span className="line-through text-slate-400">{formatValue(correction.field, correction.from)}</span> → {formatValue(correction.field, correction.to)}
+                        </div>
+                        {correction.reasoning && <div className="mt-0.5 text-slate-400 font-sans">{correction.reasoning}</div>}
+                        {correction.status === 'pending' && (
+                          <div className="mt-1 flex gap-2">
+                            {onCorrectionAccept && (
+                              <button
+                                onClick={() => onCorrectionAccept(correction.id)}
+                                disabled={outdated}
+                                title={outdated ? 'The value changed since this correction was proposed' : undefined}
+                                className="px-2 py-0.5 rounded bg-green-600 text-white disabled:opacity-40"
+                              >
+                                Accept
+                              </button>
+                            )}
+                            {onCorrectionReject && (
+                              <button onClick={() => onCorrectionReject(correction.id)} className="px-2 py-0.5 rounded bg-slate-200 text-slate-700">
+                                Reject
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              {caseFile.clarifications && caseFile.clarifications.length > 0 && (
+                <div className="col-span-2">
+                  <span className="text-[10px] text-slate-400 uppercase tracking-wide">Clarifying Questions</span>
+                  <ul className="mt-1 space-y-1">
+                    {[...caseFile.clarifications].reverse().map(clarification => (
+                      <li key={clarification.id} className={`p-2 rounded border text-[10px] ${clarification.status === 'pending' || clarification.status === 'asked' ? 'border-blue-200 bg-blue-50' : 'border-slate-100 bg-slate-50'}`}>
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-slate-700">“{clarification.prompt}”</span>
+                          <span className="font-mono uppercase text-slate-400">{clarification.status}</span>
+                        </div>
+                        {clarification.issue && <div className="mt-0.5 text-slate-400">{clarification.issue}</div>}
+                        {clarification.fields.length > 0 && <div className="mt-0.5 font-mono text-slate-400">{clarification.fields.join(', ')}</div>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -344,24 +468,266 @@ const StateVisualizer: React.FC<StateVisualizerProps> = ({
           )}
         </div>
 
+        {/* DEV OUTBOX (messages sent by the local messaging adapter) */}
+        {outbox.length > 0 && (
+          <div className="mb-4 bg-white rounded-lg border border-slate-200 overflow-hidden shadow-sm">
+            <button
+              onClick={() => setIsOutboxOpen(!isOutboxOpen)}
+              className="w-full px-3 py-2 bg-slate-50 flex items-center justify-between text-xs font-bold text-slate-600 hover:bg-slate-100 transition-colors"
+            >
+              <span>Dev Outbox ({outbox.length})</span>
+              <svg className={`h-4 w-4 transition-transform ${isOutboxOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+            {isOutboxOpen && (
+              <div className="divide-y divide-slate-100 border-t border-slate-100">
+                {outbox.slice(-5).reverse().map((message, i) => (
+                  <div key={i} className="px-3 py-2 text-[10px] font-mono text-slate-600">
+                    <span className="font-bold uppercase text-slate-500">{message.channel}</span> → {message.to}
+                    <span className="text-slate-400"> · {new Date(message.sent_at).toLocaleTimeString()}</span>
+                    <p className="text-slate-800 font-sans text-xs mt-0.5">{message.body}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* CASE STATUS */}
         <div className="mb-4 flex items-center justify-between bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
-          <span className="text-xs font-bold text-slate-500 uppercase">Case Status</span>
+          <span className="text-xs font-bold text-slate-500 uppercase">
+            Case Status <span className="ml-1 font-mono font-normal text-slate-400" title="Case file version">v{caseFile.version}</span>
+          </span>
           <span className={`px-2 py-1 rounded-md text-xs font-bold ${caseFile.status === 'INTAKE' ? 'bg-blue-100 text-blue-700' :
             caseFile.status === 'REJECTED' ? 'bg-red-100 text-red-700' :
-              caseFile.status === 'CLOSED' ? 'bg-green-100 text-green-700' :
-                'bg-yellow-100 text-yellow-700'
+              caseFile.status === 'REFERRED' ? 'bg-orange-100 text-orange-700' :
+                caseFile.status === 'CLOSED' ? 'bg-green-100 text-green-700' :
+                  'bg-yellow-100 text-yellow-700'
             }`}>
             {caseFile.status}
           </span>
         </div>
+        {caseFile.rejection_reason && !isCaseActive && (
+          <div className="-mt-3 mb-4 px-3 text-[10px] text-red-600 font-mono">
+            {caseFile.rejection_reason}
+          </div>
+        )}
+
+        {caseFile.referral && (
+          <div className="-mt-3 mb-4 px-3 text-[10px] text-orange-700 font-mono">
+            → {caseFile.referral.partner_name} ({caseFile.referral.partner_phone}) · consent: {
+              caseFile.referral.consent === null ? 'pending' : caseFile.referral.consent ? 'yes' : 'no'
+            }
+          </div>
+        )}
+
+        {/* STATUS LIFECYCLE (pipeline + transition history) */}
+        <div className="mb-4 bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+          <div className="flex items-center gap-1 text-[10px] font-bold">
+            {LIFECYCLE_PIPELINE.map((status, index) => {
+              const reached = caseFile.status === status || (caseFile.status_history || []).some(t => t.from === status);
+              return (
+                <React.Fragment key={status}>
+                  {index > 0 && <span className="text-slate-300">→</span>}
+                  <span className={`px-1.5 py-0.5 rounded ${caseFile.status === status ? 'bg-blue-600 text-white' : reached ? 'bg-blue-50 text-blue-600' : 'bg-slate-50 text-slate-400'}`}>
+                    {status}
+                  </span>
+                </React.Fragment>
+              );
+            })}
+            {!isCaseActive && caseFile.status !== 'CLOSED' && (
+              <span className={`ml-auto px-1.5 py-0.5 rounded ${caseFile.status === 'REFERRED' ? 'bg-orange-100 text-orange-700' : 'bg-red-100 text-red-700'}`}>
+                ⤷ {caseFile.status}
+              </span>
+            )}
+          </div>
+          {caseFile.status_history && caseFile.status_history.length > 0 && (
+            <ul className="mt-2 space-y-1 border-t border-slate-100 pt-2">
+              {caseFile.status_history.map((transition, index) => (
+                <li key={index} className="text-[10px] text-slate-500 font-mono">
+                  <span className="text-slate-400">{new Date(transition.at).toLocaleTimeString()}</span>{' '}
+                  <span className="font-bold text-slate-700">{transition.from} → {transition.to}</span>{' '}
+                  <span className="text-purple-600">[{transition.actor}]</span>{' '}
+                  {transition.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* CASE TYPE (practice area driving the SOP) */}
+        <div className="mb-4 flex items-center justify-between bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+          <span className="text-xs font-bold text-slate-500 uppercase">Case Type</span>
+          {onCaseTypeChange ? (
+            <select
+              value={caseFile.case_type ?? ''}
+              onChange={(e) => onCaseTypeChange(e.target.value as CaseTypeId)}
+              className="px-2 py-1 rounded-md text-xs font-bold bg-purple-50 text-purple-700 border border-purple-200 outline-none cursor-pointer"
+            >
+              {caseFile.case_type === null && (
+                <option value="" disabled>Awaiting classification...</option>
+              )}
+              {listCaseTypes().map(type => (
+                <option key={type.id} value={type.id}>{type.label}</option>
+              ))}
+            </select>
+          ) : (
+            <span className="px-2 py-1 rounded-md text-xs font-bold bg-purple-50 text-purple-700">{caseType.label}</span>
+          )}
+        </div>
+        {caseFile.classification && (
+          <div className="-mt-3 mb-4 px-3 text-[10px] text-slate-500 font-mono">
+            Router: {caseFile.classification.case_type ?? 'unknown'} · {caseFile.classification.method} · {Math.round(caseFile.classification.confidence * 100)}%
+            {!caseFile.classification.confirmed && ' · awaiting confirmation'}
+          </div>
+        )}
+
+        {/* STATUTE OF LIMITATIONS (filing deadline) */}
+        <div className="mb-4 bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-bold text-slate-500 uppercase">Statute of Limitations</span>
+            {caseFile.sol ? (
+              <span className={`px-2 py-1 rounded-md text-xs font-bold ${caseFile.sol.status === 'EXPIRED' ? 'bg-red-100 text-red-700' :
+                caseFile.sol.status === 'URGENT' ? 'bg-amber-100 text-amber-700' :
+                  'bg-green-100 text-green-700'
+                }`}>
+                {caseFile.sol.status === 'EXPIRED'
+                  ? `EXPIRED ${Math.abs(caseFile.sol.days_remaining)}d ago`
+                  : `${caseFile.sol.days_remaining} days left`}
+              </span>
+            ) : (
+              <span className="text-xs text-slate-400 italic">Needs date + state</span>
+            )}
+          </div>
+          {caseFile.sol && (
+            <div className="mt-2 text-[10px] text-slate-500 font-mono space-y-0.5">
+              <div>Deadline: <span className="text-slate-800 font-bold">{caseFile.sol.deadline}</span> · {caseFile.sol.state} · {caseFile.sol.limitation_years}y ({caseFile.sol.claim_type})</div>
+              <div>Accrues: {caseFile.sol.accrual_date} ({caseFile.sol.accrual_basis})</div>
+              <div className="font-sans italic">{caseFile.sol.tolling_notes}</div>
+            </div>
+          )}
+        </div>
+
+        {/* QUALIFICATION SCORE (deterministic, over liability + damages) */}
+        <div className="mb-4 bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-bold text-slate-500 uppercase">Qualification Score</span>
+            <span className="flex items-center gap-2">
+              <span className="text-xs font-mono text-slate-700">{caseScore.score}/100</span>
+              <span className={`px-2 py-1 rounded-md text-xs font-bold ${caseScore.tier === 'A' ? 'bg-green-100 text-green-700' :
+                caseScore.tier === 'B' ? 'bg-amber-100 text-amber-700' :
+                  'bg-slate-100 text-slate-600'
+                }`}>
+                Tier {caseScore.tier}
+              </span>
+            </span>
+          </div>
+          {caseScore.answered < caseScore.factors.length && (
+            <div className="mt-1 text-[10px] text-slate-400 italic">
+              Provisional: {caseScore.answered}/{caseScore.factors.length} factors answered
+            </div>
+          )}
+          <div className="mt-2 space-y-1">
+            {caseScore.factors.map(factor => (
+              <div key={factor.id} className="flex items-center gap-2" title={factor.detail}>
+                <span className="text-[10px] text-slate-500 w-24 shrink-0">{factor.label}</span>
+                <div className="flex-1 bg-slate-100 rounded-full h-2 overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-400 rounded-full transition-all"
+                    style={{ width: `${factor.max_points > 0 ? (factor.points / factor.max_points) * 100 : 0}%` }}
+                  />
+                </div>
+                <span className="text-[10px] font-mono text-slate-700 w-12 text-right">{factor.points}/{factor.max_points}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* ECONOMIC DAMAGES (medical specials + lost wages) */}
+        <div className="mb-4 bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-bold text-slate-500 uppercase">Economic Damages</span>
+            <span className="text-xs font-mono font-bold text-slate-800">${economicDamages.total.toLocaleString('en-US')}</span>
+          </div>
+          <div className="mt-2 grid grid-cols-2 gap-2 text-[10px] font-mono text-slate-500">
+            <div>
+              Medical specials: <span className="text-slate-800 font-bold">${economicDamages.medical_specials.toLocaleString('en-US')}</span>
+              <span className="text-slate-400"> ({economicDamages.bill_count} bill{economicDamages.bill_count === 1 ? '' : 's'})</span>
+            </div>
+            <div>
+              Lost wages: <span className="text-slate-800 font-bold">${economicDamages.lost_wages.toLocaleString('en-US')}</span>
+            </div>
+          </div>
+        </div>
+
+        {/* SOP PROGRESS (skipped steps excluded from the total) */}
+        <div className="mb-4 bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-bold text-slate-500 uppercase">SOP Progress</span>
+            <span className="text-xs font-mono text-slate-700">
+              {progress.completed}/{progress.applicable}
+              {progress.skipped > 0 && <span className="text-slate-400"> ({progress.skipped} N/A)</span>}
+            </span>
+          </div>
+          <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+            <div
+              className="h-full bg-green-500 rounded-full transition-all"
+              style={{ width: `${progress.applicable > 0 ? (progress.completed / progress.applicable) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+
+        {/* STAFF OVERRIDES (inline edits + unlocks) */}
+        {caseFile.override_history && caseFile.override_history.length > 0 && (
+          <div className="mb-4 bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+            <span className="text-xs font-bold text-slate-500 uppercase">Staff Overrides</span>
+            <ul className="mt-2 space-y-1">
+              {caseFile.override_history.map((override, index) => (
+                <li key={index} className="text-[10px] text-slate-500 font-mono">
+                  <span className="text-slate-400">{new Date(override.at).toLocaleTimeString()}</span>{' '}
+                  <span className="font-bold text-slate-700">{override.action === 'edit' ? '✎ 🔒' : '🔓'} {override.field}</span>{' '}
+                  {override.action === 'edit'
+                    ? <>{formatValue(override.field, override.from)} → {formatValue(override.field, override.to)}</>
+                    : 'unlocked'}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* DISCARDED THINKER CORRECTIONS (field changed after the audited snapshot) */}
+        {caseFile.stale_corrections && caseFile.stale_corrections.length > 0 && (
+          <div className="mb-4 bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+            <span className="text-xs font-bold text-slate-500 uppercase">Discarded Thinker Corrections</span>
+            <ul className="mt-2 space-y-1">
+              {caseFile.stale_corrections.map((correction, index) => (
+                <li key={index} className="text-[10px] text-slate-500 font-mono">
+                  <span className="text-slate-400">{new Date(correction.at).toLocaleTimeString()}</span>{' '}
+                  <span className="font-bold text-slate-700">{correction.field}</span>{' '}
+                  <span className="line-through">{formatValue(correction.field, correction.value)}</span>
+                  <div className="text-slate-400">{correction.reason}</div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
 
         {/* WORKFLOW LIST */}
         <div className="space-y-2">
-          {INTAKE_STEPS.map((step, index) => {
-            const value = getValue(caseFile, step.id);
-            const isCompleted = isComplete(step.id, value);
+          {steps.map((step, index) => {
+            const value = getFieldValue(caseFile, step.id);
+            const status = stepStatuses[index];
+            const isCompleted = status === 'complete';
+            const isSkipped = status === 'not_applicable';
             const isActive = index === activeStepIndex;
+            const provenance = getFieldProvenance(caseFile, step.id);
+            const latestSource = provenance[provenance.length - 1];
+            const isProvenanceOpen = expandedProvenanceField === step.id;
+            const confidence = caseFile.field_confidence?.[step.id];
+            const isLocked = isFieldLocked(caseFile, step.id);
+            const isEditing = editingField === step.id;
+            const editor = isEditing ? getFieldEditor(caseFile, step.id) : null;
 
             // UI State Configuration
             let containerClass = "bg-white border-slate-200";
@@ -380,6 +746,13 @@ const StateVisualizer: React.FC<StateVisualizerProps> = ({
                   </svg>
                 </div>
               );
+            } else if (isSkipped) {
+              containerClass = "bg-slate-50 border-dashed border-slate-200 opacity-50";
+              icon = (
+                <div className="w-5 h-5 rounded-full border-2 border-dashed border-slate-300 flex items-center justify-center text-[10px] text-slate-400 font-bold">
+                  –
+                </div>
+              );
             } else if (isActive) {
               containerClass = "bg-blue-50 border-blue-400 ring-1 ring-blue-400 shadow-md transform scale-[1.02] transition-all";
               icon = (
@@ -395,24 +768,124 @@ const StateVisualizer: React.FC<StateVisualizerProps> = ({
             }
 
             return (
-              <div key={step.id} className={`flex items-center justify-between p-3 rounded-lg border ${containerClass}`}>
-                <div className="flex items-center gap-3 overflow-hidden">
-                  {icon}
-                  <div className="flex flex-col min-w-0">
-                    <span className={`text-sm font-semibold truncate ${isActive ? 'text-blue-700' : 'text-slate-700'}`}>
-                      {step.label}
-                    </span>
-                    <span className="text-[10px] text-slate-500 uppercase tracking-wider">
-                      {step.vector}
+              <div key={step.id}>
+                <div className={`flex items-center justify-between p-3 rounded-lg border ${containerClass}`}>
+                  <div className="flex items-center gap-3 overflow-hidden">
+                    {icon}
+                    <div className="flex flex-col min-w-0">
+                      <span className={`text-sm font-semibold truncate ${isActive ? 'text-blue-700' : 'text-slate-700'}`}>
+                        {step.label}
+                      </span>
+                      <span className="text-[10px] text-slate-500 uppercase tracking-wider">
+                        {step.vector}
+                        {isLocked && <span className="ml-1 normal-case text-amber-700 font-bold" title="Set by staff: models cannot overwrite it">🔒 locked</span>}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="max-w-[40%] text-right">
+                    <span className={`text-xs font-mono break-all ${isCompleted ? 'text-slate-800 font-medium' : 'text-slate-400 italic'}`}>
+                      {isSkipped ? 'Not Applicable' : formatValue(step.id, value)}
                     </span>
+                    {step.id === 'contact.phone_number' && caseFile.contact_verification && (
+                      <span className={`block text-[10px] font-bold ${caseFile.contact_verification.status === 'VERIFIED' ? 'text-green-600' :
+                        caseFile.contact_verification.status === 'PENDING' ? 'text-amber-600' : 'text-slate-400'
+                        }`}>
+                        {caseFile.contact_verification.status === 'VERIFIED' ? '✓ Verified' :
+                          caseFile.contact_verification.status === 'PENDING' ? 'Code sent, awaiting entry' :
+                            caseFile.contact_verification.status === 'FAILED' ? 'Verification failed' : 'Verification skipped'}
+                      </span>
+                    )}
+                    {step.id === 'incident.location_jurisdiction' && caseFile.incident.location_normalized && (
+                      <span className="block text-[10px] font-mono text-slate-500">
+                        {[caseFile.incident.location_normalized.city, caseFile.incident.location_normalized.county, caseFile.incident.location_normalized.state, caseFile.incident.location_normalized.country]
+                          .filter(Boolean).join(' · ')}
+                      </span>
+                    )}
+                    {value !== null && typeof confidence === 'number' && !isSkipped && (
+                      <span className={`block text-[10px] font-mono ${needsConfirmation(caseFile, step.id) ? 'text-amber-600 font-bold' : 'text-slate-400'}`}>
+                        {needsConfirmation(caseFile, step.id) ? '⚠ To confirm · ' : ''}conf {confidence.toFixed(2)}
+                      </span>
+                    )}
+                    {!isSkipped && (onFieldEdit || (isLocked && onFieldUnlock)) && (
+                      <span className="block text-[10px] space-x-2">
+                        {onFieldEdit && !isEditing && (
+                          <button onClick={() => startEditing(step.id)} className="text-blue-600 hover:text-blue-800">✎ Edit</button>
+                        )}
+                        {isLocked && onFieldUnlock && (
+                          <button onClick={() => onFieldUnlock(step.id)} className="text-amber-700 hover:text-amber-900">🔓 Unlock</button>
+                        )}
+                      </span>
+                    )}
+                    {latestSource && (
+                      <button
+                        onClick={() => setExpandedProvenanceField(isProvenanceOpen ? null : step.id)}
+                        title={latestSource.quote ? `"${latestSource.quote}"` : 'No verbatim quote'}
+                        className="block ml-auto text-[10px] text-purple-600 hover:text-purple-800 font-mono"
+                      >
+                        ⓘ {latestSource.model_role}{provenance.length > 1 ? ` (${provenance.length} writes)` : ''}
+                      </button>
+                    )}
                   </div>
                 </div>
 
-                <div className="max-w-[40%] text-right">
-                  <span className={`text-xs font-mono break-all ${isCompleted ? 'text-slate-800 font-medium' : 'text-slate-400 italic'}`}>
-                    {formatValue(step.id, value)}
-                  </span>
-                </div>
+                {/* INLINE EDITOR (staff override, validated like a model answer) */}
+                {isEditing && editor && (
+                  <div className="mx-2 mt-1 p-2 bg-blue-50 border border-blue-100 rounded-b-lg space-y-1">
+                    {editor.kind === 'enum' || editor.kind === 'boolean' ? (
+                      <select
+                        value={editText}
+                        onChange={(e) => setEditText(e.target.value)}
+                        className="w-full px-2 py-1 text-xs border border-slate-300 rounded"
+                      >
+                        <option value="">—</option>
+                        {(editor.kind === 'boolean' ? ['true', 'false'] : editor.options || []).map(option => (
+                          <option key={option} value={option}>{editor.kind === 'boolean' ? (option === 'true' ? 'Yes' : 'No') : option}</option>
+                        ))}
+                      </select>
+                    ) : editor.kind === 'json' ? (
+                      <textarea
+                        value={editText}
+                        onChange={(e) => setEditText(e.target.value)}
+                        rows={5}
+                        className="w-full px-2 py-1 text-[10px] font-mono border border-slate-300 rounded"
+                      />
+                    ) : (
+                      <input
+                        type={editor.kind === 'number' ? 'number' : 'text'}
+                        value={editText}
+                        onChange={(e) => setEditText(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && saveEdit()}
+                        className="w-full px-2 py-1 text-xs border border-slate-300 rounded"
+                      />
+                    )}
+                    {editError && <p className="text-[10px] text-red-600">{editError}</p>}
+                    <div className="flex justify-end gap-2 text-[10px] font-bold">
+                      <button onClick={() => setEditingField(null)} className="px-2 py-1 text-slate-500 hover:text-slate-700">Cancel</button>
+                      <button onClick={saveEdit} className="px-2 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded">Save &amp; Lock</button>
+                    </div>
+                  </div>
+                )}
+
+                {/* FIELD PROVENANCE (every write, oldest first) */}
+                {isProvenanceOpen && (
+                  <ul className="mx-2 mt-1 p-2 space-y-1 bg-purple-50 border border-purple-100 rounded-b-lg">
+                    {provenance.map((entry, entryIndex) => (
+                      <li key={entryIndex} className="text-[10px] text-slate-600 font-mono">
+                        <span className="text-slate-400">{new Date(entry.recorded_at).toLocaleTimeString()}</span>{' '}
+                        <span className="text-purple-600">[{entry.model_role}]</span>{' '}
+                        {entry.provider}/{entry.model_name}
+                        {entry.message_id && <span className="text-slate-400"> · msg {entry.message_id.slice(0, 8)}</span>}
+                        <span className="block font-sans">
+                          → {formatValue(step.id, entry.value)}{' '}
+                          {entry.quote
+                            ? <span className="italic text-slate-800">"{entry.quote}"</span>
+                            : <span className="italic text-slate-400">(no verbatim quote)</span>}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             );
           })}
@@ -1,5 +1,7 @@
 import React from 'react';
 import { Message, CaseFile } from '../types';
+import { buildReferralPacket } from '../services/referrals';
+import { scoreCase } from '../services/caseScoring';
 
 interface TranscriptModalProps {
   messages: Message[];
@@ -17,6 +19,21 @@ interface TranscriptModalProps {
 const TranscriptModal: React.FC<TranscriptModalProps> = ({ messages, finalCaseFile, isOpen, onClose }) => {
   if (!isOpen) return null;
 
+  const referralPacket = buildReferralPacket(finalCaseFile);
+  const caseScore = scoreCase(finalCaseFile);
+
+  // Downloads the consented referral packet as JSON (to send to the partner firm)
+  const exportReferralPacket = () => {
+    if (!referralPacket) return;
+    const blob = new Blob([JSON.stringify(referralPacket, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `referral-packet-${finalCaseFile.case_id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in">
@@ -40,6 +57,115 @@ const TranscriptModal: React.FC<TranscriptModalProps> = ({ messages, finalCaseFi
         {/* CONTENT AREA */}
         <div className="flex-1 overflow-y-auto p-6 space-y-8 custom-scrollbar">
           
+          {/* 0. Case Outcome & Filing Deadline */}
+          <section>
+            <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Case Outcome</h3>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+                <span className="block text-[10px] text-slate-400 uppercase tracking-wide">Status</span>
+                <span className="font-bold text-slate-800">{finalCaseFile.status}</span>
+                {finalCaseFile.rejection_reason && (
+                  <p className="text-xs text-red-600 mt-1">{finalCaseFile.rejection_reason}</p>
+                )}
+                {finalCaseFile.status_history && finalCaseFile.status_history.length > 0 && (
+                  <ul className="mt-2 space-y-0.5">
+                    {finalCaseFile.status_history.map((transition, index) => (
+                      <li key={index} className="text-[11px] text-slate-500">
+                        {new Date(transition.at).toLocaleString()} · {transition.from} → {transition.to} ({transition.actor}): {transition.reason}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+                <span className="block text-[10px] text-slate-400 uppercase tracking-wide">Statute of Limitations</span>
+                {finalCaseFile.sol ? (
+                  <>
+                    <span className={`font-bold ${finalCaseFile.sol.status === 'EXPIRED' ? 'text-red-600' : finalCaseFile.sol.status === 'URGENT' ? 'text-amber-600' : 'text-slate-800'}`}>
+                      Deadline {finalCaseFile.sol.deadline} ({finalCaseFile.sol.days_remaining} days remaining)
+                    </span>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {finalCaseFile.sol.state} · {finalCaseFile.sol.limitation_years}-year period from {finalCaseFile.sol.accrual_date} ({finalCaseFile.sol.accrual_basis}). {finalCaseFile.sol.tolling_notes}
+                    </p>
+                  </>
+                ) : (
+                  <span className="text-slate-400 italic">Not determined (missing date or state)</span>
+                )}
+              </div>
+              <div className="col-span-2 bg-slate-50 border border-slate-200 rounded-lg p-3">
+                <span className="block text-[10px] text-slate-400 uppercase tracking-wide">Qualification Score</span>
+                <span className="font-bold text-slate-800">{caseScore.score}/100 · Tier {caseScore.tier}</span>
+                <ul className="mt-1 space-y-0.5">
+                  {caseScore.factors.map(factor => (
+                    <li key={factor.id} className="text-xs text-slate-500">
+                      {factor.label}: {factor.points}/{factor.max_points} ({factor.detail})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              {finalCaseFile.override_history && finalCaseFile.override_history.length > 0 && (
+                <div className="col-span-2 bg-slate-50 border border-slate-200 rounded-lg p-3">
+                  <span className="block text-[10px] text-slate-400 uppercase tracking-wide">Staff Overrides</span>
+                  <ul className="mt-1 space-y-0.5">
+                    {finalCaseFile.override_history.map((override, index) => (
+                      <li key={index} className="text-xs text-slate-500">
+                        {new Date(override.at).toLocaleString()} · {override.field}: {override.action === 'edit'
+                          ? `${JSON.stringify(override.from)} → ${JSON.stringify(override.to)} (edited, locked)`
+                          : 'unlocked'}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {finalCaseFile.referral && (
+                <div className="col-span-2 bg-orange-50 border border-orange-200 rounded-lg p-3">
+                  <span className="block text-[10px] text-orange-500 uppercase tracking-wide">Referred To</span>
+                  <span className="font-bold text-slate-800">{finalCaseFile.referral.partner_name}</span>
+                  <p className="text-xs text-slate-600 mt-1">
+                    {finalCaseFile.referral.partner_phone} · {finalCaseFile.referral.partner_email} · Client consent to share details: {
+                      finalCaseFile.referral.consent === null ? 'not answered' : finalCaseFile.referral.consent ? 'yes' : 'no'
+                    }
+                  </p>
+                </div>
+              )}
+            </div>
+          </section>
+
+          {/* 0b. Field Provenance (which words produced which value) */}
+          {finalCaseFile.provenance && finalCaseFile.provenance.length > 0 && (
+            <section>
+              <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Field Provenance</h3>
+              <table className="w-full text-xs border border-slate-200 rounded-lg overflow-hidden">
+                <thead className="bg-slate-50 text-[10px] text-slate-400 uppercase tracking-wide text-left">
+                  <tr>
+                    <th className="p-2">Field</th>
+                    <th className="p-2">Value</th>
+                    <th className="p-2">Source</th>
+                    <th className="p-2">Client's Words</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {finalCaseFile.provenance.map((entry, index) => (
+                    <tr key={index} className="border-t border-slate-100 align-top">
+                      <td className="p-2 font-mono text-slate-700">{entry.field}</td>
+                      <td className="p-2 font-mono text-slate-600 break-all">{JSON.stringify(entry.value)}</td>
+                      <td className="p-2 text-slate-500">
+                        {entry.model_role} · {entry.provider}/{entry.model_name}
+                        <span className="block text-[10px] text-slate-400">{new Date(entry.recorded_at).toLocaleString()}</span>
+                      </td>
+                      <td className="p-2">
+                        {entry.quote ? <span className="italic text-slate-800">"{entry.quote}"</span> : <span className="italic text-slate-400">No verbatim quote</span>}
+                        {entry.message_id && (
+                          <a href={`#msg-${entry.message_id}`} className="block text-[10px] text-blue-600 hover:underline">View message</a>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
           {/* 1. Final Payload (The Asset) */}
           <section>
             <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Final JSON Payload</h3>
@@ -55,7 +181,7 @@ const TranscriptModal: React.FC<TranscriptModalProps> = ({ messages, finalCaseFi
              <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Conversation & Reasoning Log</h3>
              <div className="space-y-6">
                 {messages.map((msg) => (
-                  <div key={msg.id} className="flex flex-col gap-2">
+                  <div key={msg.id} id={`msg-${msg.id}`} className="flex flex-col gap-2">
                     {/* Chat Bubble */}
                     <div className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                        <div className={`max-w-[85%] px-4 py-3 rounded-xl border ${
@@ -96,7 +222,17 @@ const TranscriptModal: React.FC<TranscriptModalProps> = ({ messages, finalCaseFi
         </div>
 
         {/* FOOTER */}
-        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-end">
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2">
+           {finalCaseFile.referral && (
+             <button
+               onClick={exportReferralPacket}
+               disabled={!referralPacket}
+               title={referralPacket ? 'Consented subset of the case file for the partner firm' : 'The client has not consented to sharing their details'}
+               className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-500 font-medium text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+             >
+               Export Referral Packet
+             </button>
+           )}
            <button 
              onClick={() => window.print()}
              className="px-4 py-2 bg-slate-800 text-white rounded-lg hover:bg-slate-700 font-medium text-sm flex items-center gap-2 transition-colors"
@@ -1,5 +1,5 @@
 
-import { CaseFile } from './types';
+import { AuditReviewPolicy, CaseFile, ScoringConfig } from './types';
 
 /**
  * MOCK DATABASE for Conflict Checks.
@@ -13,54 +13,20 @@ export const MOCK_CLIENT_DB = [
   'T-800'
 ];
 
-/**
- * STANDARD OPERATING PROCEDURE (SOP)
- * ----------------------------------
- * Defines the strict linear order of the intake process.
- */
-export const INTAKE_STEPS = [
-  // 1. Basic Contact Info (Priority High)
-  { id: 'contact.full_name', label: 'Full Name', vector: 'Contact' },
-  { id: 'contact.email', label: 'Email Address', vector: 'Contact' },
-
-  // 2. Gatekeeping & Ethics (Fail Fast)
-  { id: 'admin.prior_representation', label: 'Prior Representation', vector: 'Administrative' },
-  { id: 'admin.conflict_party', label: 'Conflict Check', vector: 'Administrative' },
-
-  // 3. The Incident (Facts)
-  { id: 'incident.accident_date', label: 'Accident Date', vector: 'Incident' },
-  { id: 'incident.accident_time', label: 'Accident Time', vector: 'Incident' },
-  { id: 'incident.location_jurisdiction', label: 'Location', vector: 'Incident' },
-  { id: 'incident.weather_conditions', label: 'Weather Conditions', vector: 'Incident' },
-  { id: 'incident.vehicle_description', label: 'Vehicle Description', vector: 'Incident' },
-  { id: 'incident.police_report_filed', label: 'Police Report', vector: 'Incident' },
-
-  // 4. Liability (Fault)
-  { id: 'liability.claimant_role', label: 'Claimant Role', vector: 'Liability' },
-  { id: 'liability.fault_admission', label: 'Fault Admission', vector: 'Liability' }, // STRUCT
-  { id: 'liability.citation_issued', label: 'Citations Issued', vector: 'Liability' },
-  { id: 'liability.witness_presence', label: 'Witnesses', vector: 'Liability' },
-
-  // 5. Damages (Severity / Value)
-  { id: 'damages.injury_details', label: 'Injuries', vector: 'Damages' }, // STRUCT
-  { id: 'damages.medical_treatment', label: 'Medical Treatment', vector: 'Damages' },
-  { id: 'damages.hospitalization_details', label: 'Hospitalization', vector: 'Damages' }, // STRUCT
-  { id: 'damages.lost_wages_details', label: 'Lost Wages', vector: 'Damages' }, // STRUCT
-
-  // 6. Closing
-  { id: 'admin.insurance_status', label: 'Insurance Status', vector: 'Administrative' },
-];
-
 /**
  * Blank state for a new session.
  */
 export const INITIAL_CASE_FILE: CaseFile = {
   case_id: `CASE-INIT`,
+  version: 0,
   status: 'QUALIFICATION',
+  case_type: null,
   contact: {
     full_name: null,
     phone_number: null,
     email: null,
+    preferred_contact_method: null,
+    best_time_to_call: null,
   },
   incident: {
     accident_date: null,
@@ -69,11 +35,14 @@ export const INITIAL_CASE_FILE: CaseFile = {
     police_report_filed: null,
     weather_conditions: null,
     vehicle_description: null,
+    other_vehicles: null,
+    location_normalized: null,
   },
   liability: {
     fault_admission: { status: null, statement: null },
     citation_issued: null,
     witness_presence: null,
+    witnesses: null,
     claimant_role: null,
   },
   damages: {
@@ -82,13 +51,89 @@ export const INITIAL_CASE_FILE: CaseFile = {
     hospitalization_details: { was_hospitalized: null, duration: null },
     lost_wages_details: { has_lost_wages: null, amount: null },
   },
+  medical: {
+    providers: null,
+    first_treatment_date: null,
+    treatment_ongoing: null,
+    last_treatment_date: null,
+    bills: null,
+  },
   admin: {
     insurance_status: null,
     prior_representation: null,
-    conflict_party: null,
+    adverse_parties: null,
   }
 };
 
+/**
+ * Minimum router confidence to start a practice-area SOP without asking the client to confirm.
+ */
+export const CLASSIFICATION_CONFIDENCE_THRESHOLD = 0.7;
 
+export const SYSTEM_GREETING = "Hello. I am the legal intake assistant. Before we begin, could you briefly describe what happened?";
+
+/**
+ * Phone verification (one-time code) settings.
+ */
+export const OTP_LENGTH = 6;
+export const OTP_MAX_ATTEMPTS = 3;
+export const OTP_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Days before the limitations deadline at which a case is flagged URGENT.
+ */
+export const SOL_URGENT_THRESHOLD_DAYS = 90;
 
-export const SYSTEM_GREETING = "Hello. I am the legal intake assistant. Before we begin discussing your case, could you please provide your Full Name?";
+/**
+ * States the firm is licensed to practice in. Incidents elsewhere are
+ * referred to a partner firm (see services/referrals.ts).
+ */
+export const FIRM_SERVICE_STATES: string[] = ['CA', 'FL', 'IL', 'NJ', 'NY', 'PA', 'TX'];
+
+/**
+ * Model confidence (0-1) below which an extracted value is read back to the
+ * client for confirmation before its step counts as complete (services/stateLogic.ts).
+ * Firms override it with setConfidenceThreshold.
+ */
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.7;
+
+/**
+ * Default policy for Thinker corrections (services/auditReview.ts): values the
+ * Thinker fills in are applied, changes to existing values wait for staff review.
+ * Firms override it with setAuditReviewPolicy.
+ */
+export const DEFAULT_AUDIT_REVIEW_POLICY: AuditReviewPolicy = 'review_overwrites';
+
+/**
+ * Default case qualification scoring (services/caseScoring.ts).
+ * Firms override it with setScoringConfig.
+ */
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  weights: {
+    fault_admission: 20,
+    citation_issued: 15,
+    witness_presence: 10,
+    injury_severity: 25,
+    hospitalization: 15,
+    lost_wages: 15
+  },
+  tier_thresholds: { A: 70, B: 40 },
+  lost_wages_full_credit: 10000
+};
+
+/**
+ * USPS state codes -> names (50 states + DC).
+ */
+export const US_STATES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California',
+  CO: 'Colorado', CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida',
+  GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana',
+  IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana', ME: 'Maine',
+  MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota', MS: 'Mississippi',
+  MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire',
+  NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota',
+  OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island',
+  SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah',
+  VT: 'Vermont', VA: 'Virginia', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin',
+  WY: 'Wyoming'
+};
@@ -0,0 +1,168 @@
+import { AuditCorrection, AuditCorrectionStatus, AuditReviewPolicy, CaseFile, FieldProvenance } from '../types';
+import { DEFAULT_AUDIT_REVIEW_POLICY } from '../constants';
+import { getFieldValue, omitPatchField } from './stateLogic';
+import { appendProvenance, getChangedFields } from './provenance';
+
+/**
+ * ------------------------------------------------------------------
+ * AUDIT REVIEW (Symbolic Part)
+ * ------------------------------------------------------------------
+ * Thinker corrections are recorded as per-field diffs instead of being merged silently:
+ * 1. Every SOP field the audit changes becomes an AuditCorrection (from -> to,
+ *    with the audit's reasoning) on `CaseFile.audit_corrections`.
+ * 2. The review policy decides which are applied now and which wait for staff.
+ * 3. Staff accept or reject pending corrections in the Visualizer. Rejected values
+ *    are listed in the Thinker prompt and dropped if the Thinker proposes them again.
+ */
+
+// ============================================================================
+// FIRM CONFIGURATION
+// ============================================================================
+let activeReviewPolicy: AuditReviewPolicy = DEFAULT_AUDIT_REVIEW_POLICY;
+
+export const setAuditReviewPolicy = (policy: AuditReviewPolicy): void => {
+  activeReviewPolicy = policy;
+  console.log(`[AUDIT] Review policy set to ${policy}`);
+};
+
+export const getAuditReviewPolicy = (): AuditReviewPolicy => activeReviewPolicy;
+
+// ============================================================================
+// POLICY
+// ============================================================================
+const sameValue = (a: any, b: any): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Null, '', [] and structs with no filled member count as not answered
+const isEmptyValue = (value: any): boolean => {
+  if (value === null || value === undefined || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.values(value).every(isEmptyValue);
+  return false;
+};
+
+const requiresReview = (policy: AuditReviewPolicy, from: any): boolean =>
+  policy === 'review_all' || (policy === 'review_overwrites' && !isEmptyValue(from));
+
+/**
+ * Whether staff already rejected this value for the field.
+ */
+export const wasRejected = (caseFile: CaseFile, field: string, value: any): boolean =>
+  (caseFile.audit_corrections || []).some(c => c.status === 'rejected' && c.field === field && sameValue(c.to, value));
+
+/**
+ * A pending correction is outdated once the field no longer holds the value it was proposed against.
+ */
+export const isCorrectionOutdated = (caseFile: CaseFile, correction: AuditCorrection): boolean =>
+  !sameValue(getFieldValue(caseFile, correction.field), correction.from);
+
+export const getPendingCorrections = (caseFile: CaseFile): AuditCorrection[] =>
+  (caseFile.audit_corrections || []).filter(c => c.status === 'pending');
+
+// ============================================================================
+// THINKER MERGE
+// ============================================================================
+
+/**
+ * Splits a Thinker patch (already cleared of locked and stale fields) into the part
+ * applied now and the corrections held for staff. Returns the patch to merge (with the
+ * updated `audit_corrections`) and the provenance entries of the applied fields.
+ */
+export const reviewAuditCorrections = (
+  caseFile: CaseFile,
+  corrected: Partial<CaseFile>,
+  entries: FieldProvenance[],
+  reasoning: string,
+  policy: AuditReviewPolicy = activeReviewPolicy,
+  now: number = Date.now()
+): { patch: Partial<CaseFile>; provenance: FieldProvenance[] } => {
+  let patch = corrected;
+  let log = [...(caseFile.audit_corrections || [])];
+  const applied: string[] = [];
+  let heldCount = 0;
+
+  getChangedFields(caseFile, corrected).forEach(({ field, value }) => {
+    const confidence = (corrected.field_confidence || {})[field] ?? null;
+
+    if (wasRejected(caseFile, field, value)) {
+      console.log(`[AUDIT] Dropped re-proposed correction to ${field} (rejected by staff)`, value);
+      patch = omitPatchField(patch, field).patch;
+      return;
+    }
+    if (log.some(c => c.status === 'pending' && c.field === field && sameValue(c.to, value))) {
+      patch = omitPatchField(patch, field).patch; // Already waiting for staff
+      return;
+    }
+
+    // A newer proposal replaces the one still waiting on this field
+    log = log.map(c => c.status === 'pending' && c.field === field ? { ...c, status: 'superseded', resolved_at: now } : c);
+
+    const held = requiresReview(policy, getFieldValue(caseFile, field));
+    if (held) {
+      patch = omitPatchField(patch, field).patch;
+      heldCount++;
+    } else {
+      applied.push(field);
+    }
+    log.push({
+      id: `${field}@${now}`,
+      field,
+      from: getFieldValue(caseFile, field),
+      to: value,
+      reasoning,
+      confidence,
+      provenance: entries.find(entry => entry.field === field) ?? null,
+      status: held ? 'pending' : 'applied',
+      proposed_at: now,
+      resolved_at: held ? null : now
+    });
+  });
+
+  if (heldCount > 0) console.log(`[AUDIT] ${heldCount} correction(s) held for staff review (${policy})`);
+
+  return {
+    patch: { ...patch, audit_corrections: log },
+    provenance: entries.filter(entry => applied.includes(entry.field))
+  };
+};
+
+// ============================================================================
+// STAFF REVIEW
+// ============================================================================
+const resolveCorrection = (caseFile: CaseFile, id: string, status: AuditCorrectionStatus, now: number): AuditCorrection[] =>
+  (caseFile.audit_corrections || []).map(c => c.id === id ? { ...c, status, resolved_at: now } : c);
+
+/**
+ * Applies a pending correction. Empty patch when it is not pending or is outdated.
+ */
+export const acceptCorrection = (caseFile: CaseFile, id: string, now: number = Date.now()): Partial<CaseFile> => {
+  const correction = getPendingCorrections(caseFile).find(c => c.id === id);
+  if (!correction || isCorrectionOutdated(caseFile, correction)) return {};
+
+  const [vector, field] = correction.field.split('.');
+  return {
+    [vector]: { [field]: correction.to },
+    field_confidence: { [correction.field]: correction.confidence },
+    audit_corrections: resolveCorrection(caseFile, id, 'accepted', now),
+    ...appendProvenance(caseFile, correction.provenance ? [correction.provenance] : [])
+  };
+};
+
+/**
+ * Refuses a pending correction; the value is fed back to the Thinker as rejected.
+ */
+export const rejectCorrection = (caseFile: CaseFile, id: string, now: number = Date.now()): Partial<CaseFile> =>
+  getPendingCorrections(caseFile).some(c => c.id === id)
+    ? { audit_corrections: resolveCorrection(caseFile, id, 'rejected', now) }
+    : {};
+
+// ============================================================================
+// THINKER FEEDBACK
+// ============================================================================
+
+/**
+ * Prompt lines for the values the Thinker must not propose again (rejected or still pending).
+ */
+export const getReviewFeedback = (caseFile: CaseFile): string[] =>
+  (caseFile.audit_corrections || [])
+    .filter(c => c.status === 'rejected' || (c.status === 'pending' && !isCorrectionOutdated(caseFile, c)))
+    .map(c => `${c.field} -> ${JSON.stringify(c.to)} (${c.status === 'rejected' ? 'rejected by staff' : 'awaiting staff review'})`);
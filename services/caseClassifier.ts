@@ -0,0 +1,148 @@
+import { CaseClassification, CaseFile, CaseTypeId, IntakeTurnResponse } from '../types';
+import { CLASSIFICATION_CONFIDENCE_THRESHOLD } from '../constants';
+import { listCaseTypes, getCaseType, applyCaseType } from './caseTypeRegistry';
+import { getNextMissingSlot, getTemplateQuestionForSlot } from './stateLogic';
+import { transitionStatus } from './caseLifecycle';
+
+/**
+ * ------------------------------------------------------------------
+ * CASE TYPE ROUTER (Symbolic Part)
+ * ------------------------------------------------------------------
+ * Runs ahead of processTurn while `case_type` is null:
+ * 1. The opening message is classified (LLM in geminiService, or the keyword fallback below).
+ * 2. Confident results set the case type and start the SOP.
+ * 3. Low-confidence results ask the client to confirm first.
+ * 4. Out-of-scope matters are closed politely.
+ */
+
+/**
+ * Vocabulary for matters the firm does not take (family, criminal, estate, ...).
+ */
+const OUT_OF_SCOPE_KEYWORDS = [
+  'divorce', 'custody', 'child support', 'alimony', 'criminal', 'arrested', 'dui', 'dwi',
+  'immigration', 'visa', 'bankruptcy', 'last will', 'estate planning', 'probate', 'eviction', 'landlord',
+  'lease', 'contract', 'patent', 'trademark', 'tax', 'speeding ticket'
+];
+
+const YES_PATTERN = /^\s*(yes|yeah|yep|yup|correct|right|that's right|that is right|exactly|sure|affirmative)\b/i;
+const NO_PATTERN = /^\s*(no|nope|nah|not really|incorrect|wrong|that's not|that is not)\b/i;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const countHits = (text: string, keywords: string[]): number =>
+  keywords.filter(keyword => new RegExp(`\\b${escapeRegExp(keyword)}\\b`, 'i').test(text)).length;
+
+/**
+ * Deterministic offline classifier.
+ * Confidence grows with the number of matching keywords and shrinks when
+ * several practice areas match at once.
+ */
+export const classifyByKeywords = (text: string): CaseClassification => {
+  const scores: { id: CaseTypeId | 'out_of_scope'; hits: number }[] = [
+    ...listCaseTypes().map(type => ({ id: type.id, hits: countHits(text, type.keywords) })),
+    { id: 'out_of_scope' as const, hits: countHits(text, OUT_OF_SCOPE_KEYWORDS) }
+  ];
+  scores.sort((a, b) => b.hits - a.hits);
+
+  const best = scores[0];
+  const totalHits = scores.reduce((sum, s) => sum + s.hits, 0);
+
+  if (best.hits === 0) {
+    return { case_type: null, confidence: 0, method: 'keyword', confirmed: false, reasoning: 'No practice-area keywords found.' };
+  }
+
+  const share = best.hits / totalHits;              // 1.0 when only one area matched
+  const strength = Math.min(1, best.hits / 2);       // two or more hits count as strong evidence
+  return {
+    case_type: best.id,
+    confidence: Math.round(share * strength * 100) / 100,
+    method: 'keyword',
+    confirmed: false,
+    reasoning: `${best.hits} keyword match(es) for ${best.id}.`
+  };
+};
+
+/**
+ * Parses a yes/no reply to the confirmation question. Null when neither.
+ */
+export const parseConfirmation = (text: string): boolean | null => {
+  if (YES_PATTERN.test(text)) return true;
+  if (NO_PATTERN.test(text)) return false;
+  return null;
+};
+
+const describeCaseType = (id: CaseTypeId): string => getCaseType(id).label.toLowerCase();
+
+const listPracticeAreas = (): string =>
+  listCaseTypes().map(type => type.label.toLowerCase()).join(', ');
+
+/**
+ * Turns a classification into the routing turn (patch + reply).
+ */
+export const buildRoutingTurn = (currentCaseFile: CaseFile, classification: CaseClassification): IntakeTurnResponse => {
+  const { case_type, confidence } = classification;
+  const isConfident = classification.confirmed || confidence >= CLASSIFICATION_CONFIDENCE_THRESHOLD;
+
+  // A. Out of scope: close politely
+  if (case_type === 'out_of_scope' && isConfident) {
+    return {
+      extracted_data: {
+        ...transitionStatus(currentCaseFile, 'REJECTED', 'router', 'Out of scope: matter is not a personal injury claim.'),
+        classification: { ...classification, confirmed: true }
+      },
+      response_text: `Thank you for explaining. Unfortunately our firm only handles personal injury matters (${listPracticeAreas()}), so we are not able to help with this one.`,
+      next_system_action: 'REJECTED_GENERIC'
+    };
+  }
+
+  // B. Confident practice area: start the SOP
+  if (case_type && case_type !== 'out_of_scope' && isConfident) {
+    const routed = applyCaseType(currentCaseFile, case_type);
+    const patch: Partial<CaseFile> = { case_type, classification: { ...classification, confirmed: true } };
+    Object.keys(getCaseType(case_type).vectors).forEach(vectorKey => {
+      (patch as any)[vectorKey] = (routed as any)[vectorKey];
+    });
+
+    const nextSlot = getNextMissingSlot(routed) || 'COMPLETE';
+    return {
+      extracted_data: patch,
+      response_text: `Thank you. I understand this is a ${describeCaseType(case_type)} matter. ${getTemplateQuestionForSlot(nextSlot, case_type)}`
+    };
+  }
+
+  // C. Low confidence: confirm the best guess
+  if (case_type && case_type !== 'out_of_scope') {
+    return {
+      extracted_data: { classification },
+      response_text: `Thank you. Just to make sure I route this correctly: it sounds like this may be a ${describeCaseType(case_type)} matter. Is that right?`
+    };
+  }
+
+  // D. Could not tell: ask the client to pick
+  return {
+    extracted_data: { classification },
+    response_text: `Thank you. Could you tell me a little more about what happened? For example, was it ${listPracticeAreas()}, or something else?`
+  };
+};
+
+/**
+ * Handles a reply while a low-confidence guess is awaiting confirmation.
+ * Returns null when the reply is not a plain yes/no (the caller re-classifies it).
+ */
+export const resolvePendingConfirmation = (currentCaseFile: CaseFile, userMessage: string): IntakeTurnResponse | null => {
+  const pending = currentCaseFile.classification;
+  if (!pending || pending.confirmed || !pending.case_type) return null;
+
+  const answer = parseConfirmation(userMessage);
+  if (answer === true) {
+    return buildRoutingTurn(currentCaseFile, { ...pending, confirmed: true });
+  }
+  // A bare "no" re-asks; "no, it was a dog bite" falls through to re-classification
+  if (answer === false && userMessage.trim().split(/\s+/).length <= 2) {
+    return {
+      extracted_data: { classification: { ...pending, case_type: null, confidence: 0 } },
+      response_text: `Thank you for clarifying. Which of these best describes your matter: ${listPracticeAreas()}, or something else?`
+    };
+  }
+  return null;
+};
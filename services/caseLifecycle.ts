@@ -0,0 +1,121 @@
+import { CaseFile, CaseStatus, StatusActor, StatusTransition } from '../types';
+import { getActiveSteps, getNextMissingSlot, getStepStatus } from './stateLogic';
+import sharedSopDocument from '../sop/shared.sop.json';
+
+/**
+ * ------------------------------------------------------------------
+ * CASE STATUS LIFECYCLE (Symbolic Part)
+ * ------------------------------------------------------------------
+ * The only place that changes `CaseFile.status`.
+ *
+ *   QUALIFICATION ──(gatekeeping done)──> INTAKE ──(all steps valid)──> CLOSED
+ *         │                                 │
+ *         └──────────> REJECTED / REFERRED <┘      (reason required)
+ *
+ * Every transition is checked against STATUS_TRANSITIONS and its guard,
+ * and appended to `status_history` with actor, reason and timestamp.
+ */
+
+export const STATUS_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  QUALIFICATION: ['INTAKE', 'REJECTED', 'REFERRED'],
+  INTAKE: ['CLOSED', 'REJECTED', 'REFERRED'],
+  REJECTED: ['QUALIFICATION'],   // Reopened by staff
+  REFERRED: ['CLOSED', 'QUALIFICATION'],
+  CLOSED: [],
+};
+
+/**
+ * The shared opening steps (contact + prior representation + conflict check).
+ */
+const GATEKEEPING_STEP_IDS = sharedSopDocument.opening.map(step => step.id);
+
+const isGatekeepingDone = (caseFile: CaseFile): boolean =>
+  getActiveSteps(caseFile)
+    .filter(step => GATEKEEPING_STEP_IDS.includes(step.id))
+    .every(step => ['complete', 'not_applicable'].includes(getStepStatus(step, caseFile)));
+
+/**
+ * Guard for a transition. Returns the reason it is blocked, or null when allowed.
+ */
+const checkGuard = (caseFile: CaseFile, to: CaseStatus, actor: StatusActor, reason: string): string | null => {
+  switch (to) {
+    case 'INTAKE':
+      if (!caseFile.case_type) return 'case type not yet classified';
+      if (caseFile.admin.prior_representation !== false) return 'prior representation not cleared';
+      if (!isGatekeepingDone(caseFile)) return 'gatekeeping steps incomplete';
+      return null;
+    case 'CLOSED':
+      if (caseFile.status === 'REFERRED') return null;
+      return getNextMissingSlot(caseFile) === 'COMPLETE' ? null : 'SOP steps incomplete';
+    case 'REJECTED':
+    case 'REFERRED':
+      return reason.trim() ? null : 'a reason is required';
+    case 'QUALIFICATION':
+      return actor === 'staff' ? null : 'only staff can reopen a case';
+    default:
+      return null;
+  }
+};
+
+export const canTransition = (caseFile: CaseFile, to: CaseStatus, actor: StatusActor, reason: string = ''): { allowed: boolean; blockedBy?: string } => {
+  if (!STATUS_TRANSITIONS[caseFile.status].includes(to)) {
+    return { allowed: false, blockedBy: `${caseFile.status} -> ${to} is not a valid transition` };
+  }
+  const blockedBy = checkGuard(caseFile, to, actor, reason);
+  return blockedBy ? { allowed: false, blockedBy } : { allowed: true };
+};
+
+/**
+ * Moves the case to `to` and returns the patch (status, history, rejection_reason).
+ * Throws when the transition is not allowed.
+ */
+export const transitionStatus = (
+  caseFile: CaseFile,
+  to: CaseStatus,
+  actor: StatusActor,
+  reason: string,
+  now: number = Date.now()
+): Partial<CaseFile> => {
+  const check = canTransition(caseFile, to, actor, reason);
+  if (!check.allowed) {
+    throw new Error(`[LIFECYCLE] Cannot move case to ${to}: ${check.blockedBy}`);
+  }
+
+  const entry: StatusTransition = { from: caseFile.status, to, at: now, actor, reason };
+  const patch: Partial<CaseFile> = {
+    status: to,
+    status_history: [...(caseFile.status_history || []), entry]
+  };
+  if (to === 'REJECTED' || to === 'REFERRED') patch.rejection_reason = reason;
+  return patch;
+};
+
+/**
+ * Applies the automatic transitions the current data allows:
+ * prior representation -> REJECTED, gatekeeping done -> INTAKE, SOP complete -> CLOSED.
+ * Returns an empty patch when nothing changes.
+ */
+export const advanceLifecycle = (caseFile: CaseFile, actor: StatusActor): Partial<CaseFile> => {
+  if (caseFile.status === 'QUALIFICATION' || caseFile.status === 'INTAKE') {
+    if (caseFile.admin.prior_representation === true) {
+      return transitionStatus(caseFile, 'REJECTED', actor, 'Client is already represented by an attorney.');
+    }
+  }
+
+  let current = caseFile;
+  let patch: Partial<CaseFile> = {};
+  if (current.status === 'QUALIFICATION' && canTransition(current, 'INTAKE', actor).allowed) {
+    patch = transitionStatus(current, 'INTAKE', actor, 'Gatekeeping complete: contact, representation and conflict checks passed.');
+    current = { ...current, ...patch };
+  }
+  if (current.status === 'INTAKE' && canTransition(current, 'CLOSED', actor).allowed) {
+    patch = transitionStatus(current, 'CLOSED', actor, 'All applicable SOP steps are complete.');
+  }
+  return patch;
+};
+
+/**
+ * True while the intake is still collecting answers.
+ */
+export const isCaseOpen = (caseFile: CaseFile): boolean =>
+  caseFile.status === 'QUALIFICATION' || caseFile.status === 'INTAKE';
@@ -0,0 +1,152 @@
+import { CaseFile, CaseScore, QualificationTier, ScoreFactor, ScoreFactorId, ScoringConfig } from '../types';
+import { DEFAULT_SCORING_CONFIG } from '../constants';
+import { parseAmount } from './fieldValidators';
+
+/**
+ * ------------------------------------------------------------------
+ * CASE QUALIFICATION SCORING (Symbolic Part)
+ * ------------------------------------------------------------------
+ * Deterministic score over the liability and damages vectors:
+ * 1. Each factor yields a fraction in [0, 1] (e.g. fault admitted -> 1).
+ * 2. Fractions are weighted by the firm's ScoringConfig and scaled to 0-100.
+ * 3. The score maps to a tier (A/B/C) via the configured thresholds.
+ *
+ * Unanswered factors count as 0, so the score only grows during the intake.
+ * No LLM involved: the same case file always gets the same score.
+ */
+
+// ============================================================================
+// FIRM CONFIGURATION
+// ============================================================================
+let activeScoringConfig: ScoringConfig = DEFAULT_SCORING_CONFIG;
+
+export const setScoringConfig = (config: ScoringConfig): void => {
+  activeScoringConfig = config;
+  console.log('[SCORING] Config updated', config.weights);
+};
+
+export const getScoringConfig = (): ScoringConfig => activeScoringConfig;
+
+// ============================================================================
+// FACTOR RULES
+// ============================================================================
+type FactorResult = { fraction: number; detail: string; answered: boolean };
+
+const UNANSWERED: FactorResult = { fraction: 0, detail: 'Not answered yet', answered: false };
+
+// Keyword bands for the free-text injury description (first match wins)
+const SEVERE_INJURY = /\b(fractur\w*|broken|surgery|surgical|concussion|brain|tbi|spinal|spine|paraly\w*|amputat\w*|internal bleeding|disc|herniat\w*|torn|rupture\w*|burns?|coma|permanent)\b/i;
+const MODERATE_INJURY = /\b(whiplash|sprain\w*|strain\w*|stitches|laceration\w*|dislocat\w*|cuts?|bites?|puncture\w*|back pain|neck pain)\b/i;
+const MINOR_INJURY = /\b(bruis\w*|sore\w*|scrape\w*|minor|stiff\w*|headache\w*)\b/i;
+
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10 };
+const UNIT_DAYS: Record<string, number> = { day: 1, night: 1, week: 7, month: 30 };
+
+/**
+ * "Overnight" -> 1, "3 days" -> 3, "two weeks" -> 14. Null when not understood.
+ */
+const parseDurationDays = (text: string): number | null => {
+  if (/\bovernight\b/i.test(text)) return 1;
+  const match = text.toLowerCase().match(/\b(\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten)\s+(day|night|week|month)s?\b/);
+  if (!match) return null;
+  const count = /^\d+$/.test(match[1]) ? Number(match[1]) : NUMBER_WORDS[match[1]];
+  return count * UNIT_DAYS[match[2]];
+};
+
+const FACTOR_LABELS: Record<ScoreFactorId, string> = {
+  fault_admission: 'Fault admission',
+  citation_issued: 'Citation issued',
+  witness_presence: 'Witnesses',
+  injury_severity: 'Injury severity',
+  hospitalization: 'Hospitalization',
+  lost_wages: 'Lost wages'
+};
+
+const FACTOR_RULES: Record<ScoreFactorId, (caseFile: CaseFile, config: ScoringConfig) => FactorResult> = {
+  fault_admission: ({ liability }) => {
+    const status = liability.fault_admission.status;
+    if (status === null) return UNANSWERED;
+    if (status === 'Yes') return { fraction: 1, detail: 'Other party admitted fault', answered: true };
+    if (status === 'Unknown') return { fraction: 0.3, detail: 'Unclear whether fault was admitted', answered: true };
+    return { fraction: 0, detail: 'No admission of fault', answered: true };
+  },
+
+  citation_issued: ({ liability }) => {
+    if (liability.citation_issued === null) return UNANSWERED;
+    return liability.citation_issued
+      ? { fraction: 1, detail: 'Citation issued', answered: true }
+      : { fraction: 0, detail: 'No citation', answered: true };
+  },
+
+  witness_presence: ({ liability }) => {
+    if (liability.witness_presence === null) return UNANSWERED;
+    const named = liability.witnesses?.length ?? 0;
+    return liability.witness_presence
+      ? { fraction: 1, detail: named > 0 ? `Witnesses present (${named} named)` : 'Witnesses present', answered: true }
+      : { fraction: 0, detail: 'No witnesses', answered: true };
+  },
+
+  injury_severity: ({ damages }) => {
+    const { has_injury, description } = damages.injury_details;
+    if (has_injury === null) return UNANSWERED;
+    if (!has_injury) return { fraction: 0, detail: 'No injury reported', answered: true };
+    if (!description) return { fraction: 0.4, detail: 'Injured (no description yet)', answered: true };
+    if (SEVERE_INJURY.test(description)) return { fraction: 1, detail: `Severe: ${description}`, answered: true };
+    if (MODERATE_INJURY.test(description)) return { fraction: 0.6, detail: `Moderate: ${description}`, answered: true };
+    if (MINOR_INJURY.test(description)) return { fraction: 0.25, detail: `Minor: ${description}`, answered: true };
+    return { fraction: 0.4, detail: `Unclassified: ${description}`, answered: true };
+  },
+
+  hospitalization: ({ damages }) => {
+    const { was_hospitalized, duration } = damages.hospitalization_details;
+    if (was_hospitalized === null) return UNANSWERED;
+    if (!was_hospitalized) return { fraction: 0, detail: 'Not hospitalized', answered: true };
+    const days = duration ? parseDurationDays(duration) : null;
+    if (days === null) return { fraction: 0.6, detail: `Hospitalized${duration ? ` (${duration})` : ''}`, answered: true };
+    return { fraction: days >= 3 ? 1 : 0.7, detail: `Hospitalized ${days} day(s)`, answered: true };
+  },
+
+  lost_wages: ({ damages }, config) => {
+    const { has_lost_wages } = damages.lost_wages_details;
+    const amount = parseAmount(damages.lost_wages_details.amount);
+    if (has_lost_wages === null) return UNANSWERED;
+    if (!has_lost_wages) return { fraction: 0, detail: 'No lost wages', answered: true };
+    if (!amount || amount <= 0) return { fraction: 0.3, detail: 'Lost wages (amount unknown)', answered: true };
+    return {
+      fraction: Math.min(amount / config.lost_wages_full_credit, 1),
+      detail: `$${amount.toLocaleString('en-US')} in lost wages`,
+      answered: true
+    };
+  }
+};
+
+// ============================================================================
+// SCORE
+// ============================================================================
+const getTier = (score: number, config: ScoringConfig): QualificationTier =>
+  score >= config.tier_thresholds.A ? 'A' : score >= config.tier_thresholds.B ? 'B' : 'C';
+
+/**
+ * Scores the case file. Factors are listed in config order with their contribution.
+ */
+export const scoreCase = (caseFile: CaseFile, config: ScoringConfig = activeScoringConfig): CaseScore => {
+  const ids = Object.keys(config.weights) as ScoreFactorId[];
+  const totalWeight = ids.reduce((sum, id) => sum + Math.max(config.weights[id], 0), 0);
+
+  let answered = 0;
+  const factors: ScoreFactor[] = ids.map(id => {
+    const result = FACTOR_RULES[id](caseFile, config);
+    if (result.answered) answered++;
+    const maxPoints = totalWeight > 0 ? (Math.max(config.weights[id], 0) / totalWeight) * 100 : 0;
+    return {
+      id,
+      label: FACTOR_LABELS[id],
+      points: Math.round(maxPoints * result.fraction * 10) / 10,
+      max_points: Math.round(maxPoints * 10) / 10,
+      detail: result.detail
+    };
+  });
+
+  const score = Math.round(factors.reduce((sum, factor) => sum + factor.points, 0));
+  return { score, tier: getTier(score, config), factors, answered };
+};
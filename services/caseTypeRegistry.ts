@@ -0,0 +1,74 @@
+import { CaseFile, CaseTypeDefinition, CaseTypeId, CaseTypeModule } from '../types';
+import { INITIAL_CASE_FILE } from '../constants';
+import { BUILT_IN_CASE_TYPES } from '../caseTypes';
+import { loadSopDefinition } from './sopLoader';
+import { getFieldSchema } from './schemaBuilder';
+import sharedSopDocument from '../sop/shared.sop.json';
+
+/**
+ * ------------------------------------------------------------------
+ * CASE TYPE REGISTRY
+ * ------------------------------------------------------------------
+ * Holds every practice area the intake can run. Registering a type:
+ * 1. Composes its SOP: shared opening (contact, gatekeeping) + type steps + shared closing (damages, insurance).
+ * 2. Validates that SOP against the core CaseFile extended with the type's vectors.
+ * 3. Checks every step has a schema definition, otherwise the Responder could never extract it.
+ *
+ * Built-in types are registered at module load, so a broken definition fails at startup.
+ */
+
+export const DEFAULT_CASE_TYPE: CaseTypeId = 'auto_accident';
+
+const registry = new Map<CaseTypeId, CaseTypeDefinition>();
+
+export const registerCaseType = (module: CaseTypeModule): CaseTypeDefinition => {
+  const { sopDocument, ...rest } = module;
+
+  const composedSop = {
+    name: sopDocument.name,
+    version: sopDocument.version,
+    steps: [...sharedSopDocument.opening, ...(sopDocument.steps || []), ...sharedSopDocument.closing],
+    terminal_instructions: { ...sharedSopDocument.terminal_instructions, ...sopDocument.terminal_instructions },
+    defaults: { ...sharedSopDocument.defaults, ...sopDocument.defaults }
+  };
+
+  const caseTemplate = { ...INITIAL_CASE_FILE, ...module.vectors };
+  const definition: CaseTypeDefinition = { ...rest, sop: loadSopDefinition(composedSop, caseTemplate) };
+
+  const unschematized = definition.sop.steps.filter(step => !getFieldSchema(step.id, definition));
+  if (unschematized.length > 0) {
+    throw new Error(`[CASE TYPE] "${module.id}" has steps without a schema definition: ${unschematized.map(s => s.id).join(', ')}`);
+  }
+
+  registry.set(definition.id, definition);
+  return definition;
+};
+
+BUILT_IN_CASE_TYPES.forEach(registerCaseType);
+
+/**
+ * Returns a registered case type. Null/unknown ids resolve to the default type.
+ */
+export const getCaseType = (id: CaseTypeId | null | undefined): CaseTypeDefinition => {
+  return (id && registry.get(id)) || registry.get(DEFAULT_CASE_TYPE)!;
+};
+
+export const listCaseTypes = (): CaseTypeDefinition[] => Array.from(registry.values());
+
+/**
+ * The case type currently driving the FSM for this case file.
+ */
+export const getActiveCaseType = (caseFile: CaseFile): CaseTypeDefinition => getCaseType(caseFile.case_type);
+
+/**
+ * Switches a case file to a practice area, adding that type's vectors (blank) if absent.
+ * Existing answers are kept, so shared steps (contact, gatekeeping) are never re-asked.
+ */
+export const applyCaseType = (caseFile: CaseFile, id: CaseTypeId): CaseFile => {
+  const caseType = getCaseType(id);
+  const updated: any = { ...caseFile, case_type: caseType.id };
+  Object.entries(caseType.vectors).forEach(([vectorKey, blank]) => {
+    if (!updated[vectorKey]) updated[vectorKey] = JSON.parse(JSON.stringify(blank));
+  });
+  return updated as CaseFile;
+};
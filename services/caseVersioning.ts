@@ -0,0 +1,75 @@
+import { CaseFile, FieldProvenance, StaleCorrection } from '../types';
+import { getActiveSteps, getFieldValue, omitPatchField } from './stateLogic';
+
+/**
+ * ------------------------------------------------------------------
+ * CASE FILE VERSIONING (Symbolic Part)
+ * ------------------------------------------------------------------
+ * The Thinker audits a snapshot while the conversation moves on, so its
+ * corrections can be older than the data they land on (see inconsistency.md):
+ * 1. Every committed update bumps `version` and stamps the SOP fields it
+ *    changed in `field_versions`.
+ * 2. Responder and Thinker results carry the `base_version` they were computed from.
+ * 3. A Thinker correction applies only to fields unchanged since its base version.
+ *    The rest are discarded and logged on `stale_corrections`; the next audit
+ *    runs on the newer data anyway.
+ * Responder patches always apply: they carry the client's latest words.
+ */
+
+/**
+ * Stamps `next` as the version after `previous`, recording which SOP fields changed.
+ * Every setCaseFile goes through here.
+ */
+export const commitVersion = (previous: CaseFile, next: CaseFile): CaseFile => {
+  const version = (previous.version ?? 0) + 1;
+  const fieldVersions = { ...(next.field_versions || {}) };
+  getActiveSteps(next).forEach(step => {
+    if (JSON.stringify(getFieldValue(previous, step.id)) !== JSON.stringify(getFieldValue(next, step.id))) {
+      fieldVersions[step.id] = version;
+    }
+  });
+  return { ...next, version, field_versions: fieldVersions };
+};
+
+/**
+ * Whether the field changed after the given version.
+ */
+export const isStaleSince = (caseFile: CaseFile, fieldId: string, baseVersion: number): boolean =>
+  (caseFile.field_versions?.[fieldId] ?? 0) > baseVersion;
+
+/**
+ * Splits a Thinker patch computed on `baseVersion`: fields changed since then are
+ * removed (with their confidence) and appended to `stale_corrections` with the reason.
+ */
+export const filterStaleCorrections = (
+  caseFile: CaseFile,
+  corrected: Partial<CaseFile>,
+  baseVersion: number,
+  now: number = Date.now()
+): { patch: Partial<CaseFile>; discarded: StaleCorrection[] } => {
+  let patch = corrected;
+  const discarded: StaleCorrection[] = [];
+
+  getActiveSteps(caseFile).forEach(step => {
+    if (!isStaleSince(caseFile, step.id, baseVersion)) return;
+    const { patch: filtered, value } = omitPatchField(patch, step.id);
+    patch = filtered;
+    if (value === undefined) return;
+
+    const fieldVersion = caseFile.field_versions![step.id];
+    const reason = `Field changed at v${fieldVersion}, after the audited snapshot v${baseVersion}.`;
+    console.log(`[VERSION] Discarded Thinker correction to ${step.id}: ${reason}`, value);
+    discarded.push({ field: step.id, value, base_version: baseVersion, field_version: fieldVersion, reason, at: now });
+  });
+
+  if (discarded.length > 0) {
+    patch = { ...patch, stale_corrections: [...(caseFile.stale_corrections || []), ...discarded] };
+  }
+  return { patch, discarded };
+};
+
+/**
+ * Provenance entries for the corrections that were actually applied.
+ */
+export const dropStaleEntries = (entries: FieldProvenance[], discarded: StaleCorrection[]): FieldProvenance[] =>
+  entries.filter(entry => !discarded.some(correction => correction.field === entry.field));
@@ -0,0 +1,116 @@
+import { AuditResponse, CaseFile, Clarification } from '../types';
+import { getActiveSteps, getFieldValue } from './stateLogic';
+import { isCaseOpen } from './caseLifecycle';
+import { isFieldLocked } from './fieldLocks';
+import { isStaleSince } from './caseVersioning';
+import { getCorrectableFields } from './corrections';
+
+/**
+ * ------------------------------------------------------------------
+ * CLARIFICATIONS (Symbolic Part)
+ * ------------------------------------------------------------------
+ * The Thinker spots contradictions the Responder cannot see ("Ohio" earlier,
+ * "Indiana" now) and returns a `verification_prompt`:
+ * 1. The prompt is logged on `CaseFile.clarifications` as pending, with the
+ *    fields named in `validation_errors`.
+ * 2. The next Responder turn asks it instead of the next SOP question.
+ * 3. The turn answering it re-opens those fields like a correction, then the
+ *    clarification is resolved. Resolved ones are listed in the Thinker prompt
+ *    so the same question is not raised again.
+ */
+
+type ClarificationStatus = Clarification['status'];
+
+/**
+ * The clarification waiting to be asked or answered, if any.
+ */
+export const getOpenClarification = (caseFile: CaseFile): Clarification | null =>
+  (caseFile.clarifications || []).find(c => c.status === 'pending' || c.status === 'asked') ?? null;
+
+const setStatus = (caseFile: CaseFile, id: string, status: ClarificationStatus, patch: Partial<Clarification>): Clarification[] =>
+  (caseFile.clarifications || []).map(c => c.id === id ? { ...c, status, ...patch } : c);
+
+// ============================================================================
+// THINKER MERGE
+// ============================================================================
+
+/**
+ * Patch logging the audit's verification prompt as pending (empty patch when there is none,
+ * or it no longer applies). A question already asked is left to be answered first.
+ */
+export const raiseClarification = (caseFile: CaseFile, audit: AuditResponse, now: number = Date.now()): Partial<CaseFile> => {
+  const prompt = audit.verification_prompt?.trim();
+  if (!prompt || !isCaseOpen(caseFile)) return {};
+
+  const open = getOpenClarification(caseFile);
+  if (open?.status === 'asked') return {};
+  if ((caseFile.clarifications || []).some(c => c.status === 'resolved' && c.prompt === prompt)) return {};
+
+  const stepIds = getActiveSteps(caseFile).map(step => step.id);
+  const named = [...new Set((audit.validation_errors || []).map(error => error.field).filter(field => stepIds.includes(field)))];
+  const fields = named.filter(field => !isFieldLocked(caseFile, field));
+  const baseVersion = audit.base_version ?? caseFile.version;
+
+  // Staff already settled every field it is about, or the client changed one since the audit
+  if (named.length > 0 && fields.length === 0) return {};
+  const stale = fields.find(field => isStaleSince(caseFile, field, baseVersion));
+  if (stale) {
+    console.log(`[CLARIFY] Dropped "${prompt}": ${stale} changed after the audited snapshot v${baseVersion}`);
+    return {};
+  }
+
+  const clarification: Clarification = {
+    id: `clarification@${now}`,
+    prompt,
+    issue: audit.flagged_issue?.trim() || null,
+    fields,
+    base_version: baseVersion,
+    status: 'pending',
+    raised_at: now,
+    asked_at: null,
+    resolved_at: null
+  };
+  console.log(`[CLARIFY] Raised: ${prompt}`, fields);
+  const log = open ? setStatus(caseFile, open.id, 'superseded', { resolved_at: now }) : [...(caseFile.clarifications || [])];
+  return { clarifications: [...log, clarification] };
+};
+
+// ============================================================================
+// RESPONDER TURN
+// ============================================================================
+
+/**
+ * Fields the client's reply may change: the ones the clarification names,
+ * or every answered field when it names none.
+ */
+export const getClarificationFields = (caseFile: CaseFile, clarification: Clarification, scopedSlots: string[]): string[] => {
+  const correctable = getCorrectableFields(caseFile, scopedSlots);
+  return clarification.fields.length > 0 ? correctable.filter(id => clarification.fields.includes(id)) : correctable;
+};
+
+/**
+ * Prompt section telling the Responder which question the client is answering.
+ */
+export const getClarificationContext = (caseFile: CaseFile, clarification: Clarification): string =>
+  `\nThe user is answering this clarifying question: "${clarification.prompt}"` +
+  (clarification.fields.length > 0
+    ? `\nCurrently recorded: ${clarification.fields.map(id => `${id} = ${JSON.stringify(getFieldValue(caseFile, id))}`).join(', ')}`
+    : '');
+
+export const markClarificationAsked = (caseFile: CaseFile, id: string, now: number = Date.now()): Partial<CaseFile> =>
+  ({ clarifications: setStatus(caseFile, id, 'asked', { asked_at: now }) });
+
+export const resolveClarification = (caseFile: CaseFile, id: string, now: number = Date.now()): Partial<CaseFile> =>
+  ({ clarifications: setStatus(caseFile, id, 'resolved', { resolved_at: now }) });
+
+// ============================================================================
+// THINKER FEEDBACK
+// ============================================================================
+
+/**
+ * Prompt lines for the questions already raised (open or resolved), not to be asked again.
+ */
+export const getClarificationFeedback = (caseFile: CaseFile): string[] =>
+  (caseFile.clarifications || [])
+    .filter(c => c.status !== 'superseded')
+    .map(c => `"${c.prompt}" (${c.status === 'resolved' ? 'answered by the client' : 'waiting for the client'})`);
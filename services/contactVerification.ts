@@ -0,0 +1,114 @@
+import { CaseFile, ContactVerification, IntakeTurnResponse } from '../types';
+import { OTP_LENGTH, OTP_MAX_ATTEMPTS, OTP_TTL_MS } from '../constants';
+import { sendMessage } from './messaging';
+import { getNextMissingSlot, getTemplateQuestionForSlot, mergeCaseFilePatch, validateField } from './stateLogic';
+
+/**
+ * ------------------------------------------------------------------
+ * PHONE VERIFICATION (Symbolic Part)
+ * ------------------------------------------------------------------
+ * 1. Once a valid phone number is captured, processTurn calls startPhoneVerification:
+ *    a one-time code goes out through the messaging adapter and the case is PENDING.
+ * 2. While PENDING, replies are checked here first (no LLM call):
+ *    matching code -> VERIFIED, wrong code -> retry (FAILED after OTP_MAX_ATTEMPTS),
+ *    "resend" -> new code, "skip" -> SKIPPED. Anything else goes on to the Responder.
+ *
+ * Codes live only in this module (never on the CaseFile, which is exported in the transcript).
+ */
+
+const pendingCodes = new Map<string, { code: string; expiresAt: number }>();
+
+const RESEND_PATTERN = /\b(resend|send (it )?again|new code|didn'?t (get|receive)|no code)\b/i;
+const SKIP_PATTERN = /\b(skip|can'?t|cannot|not now|later)\b/i;
+
+const generateCode = (): string => {
+  const digits = new Uint32Array(OTP_LENGTH);
+  crypto.getRandomValues(digits);
+  return Array.from(digits, d => String(d % 10)).join('');
+};
+
+const maskNumber = (phone: string): string => `${phone.slice(0, -4).replace(/\d/g, '•')}${phone.slice(-4)}`;
+
+/**
+ * True when the captured phone number has not been (or is no longer) the one being verified.
+ */
+export const needsPhoneVerification = (caseFile: CaseFile): boolean => {
+  const phone = caseFile.contact.phone_number;
+  if (!phone || !validateField('contact.phone_number', phone, caseFile.case_type)) return false;
+  return caseFile.contact_verification?.destination !== phone;
+};
+
+/**
+ * Sends a fresh code and returns the verification record to store.
+ */
+export const startPhoneVerification = async (phone: string, attempts: number = 0): Promise<ContactVerification> => {
+  const code = generateCode();
+  pendingCodes.set(phone, { code, expiresAt: Date.now() + OTP_TTL_MS });
+  await sendMessage({
+    channel: 'sms',
+    to: phone,
+    body: `Your legal intake verification code is ${code}. It expires in ${Math.round(OTP_TTL_MS / 60000)} minutes.`
+  });
+  return { channel: 'sms', destination: phone, status: 'PENDING', attempts, sent_at: Date.now(), verified_at: null };
+};
+
+export const getVerificationPrompt = (verification: ContactVerification): string =>
+  `I've just sent a ${OTP_LENGTH}-digit code by text message to ${maskNumber(verification.destination)}. Please type it here to confirm your number, or say "skip".`;
+
+/**
+ * Continues the SOP after the verification exchange.
+ */
+const withNextQuestion = (caseFile: CaseFile, verification: ContactVerification, text: string): IntakeTurnResponse => {
+  const updated = mergeCaseFilePatch(caseFile, { contact_verification: verification });
+  const nextSlot = getNextMissingSlot(updated);
+  const nextQuestion = nextSlot && nextSlot !== 'COMPLETE' && nextSlot !== 'REJECT_PRIOR_REP' && nextSlot !== 'REJECTED_GENERIC'
+    ? ` ${getTemplateQuestionForSlot(nextSlot, caseFile.case_type, updated)}`
+    : '';
+  return { extracted_data: { contact_verification: verification }, response_text: `${text}${nextQuestion}` };
+};
+
+/**
+ * Handles a reply while a code is pending. Returns null when the reply is
+ * not about the code (the caller sends it on to the Responder).
+ */
+export const resolveVerificationReply = async (caseFile: CaseFile, userMessage: string): Promise<IntakeTurnResponse | null> => {
+  const verification = caseFile.contact_verification;
+  if (!verification || verification.status !== 'PENDING') return null;
+
+  if (RESEND_PATTERN.test(userMessage)) {
+    const resent = await startPhoneVerification(verification.destination, verification.attempts);
+    return { extracted_data: { contact_verification: resent }, response_text: `No problem. ${getVerificationPrompt(resent)}` };
+  }
+
+  const entered = userMessage.match(new RegExp(`\\b\\d{${OTP_LENGTH}}\\b`))?.[0]
+    ?? (userMessage.replace(/[\s-]/g, '').match(new RegExp(`^\\d{${OTP_LENGTH}}$`))?.[0]);
+
+  if (!entered) {
+    if (SKIP_PATTERN.test(userMessage)) {
+      pendingCodes.delete(verification.destination);
+      return withNextQuestion(caseFile, { ...verification, status: 'SKIPPED' }, 'That is fine, we can confirm your number later.');
+    }
+    return null;
+  }
+
+  const pending = pendingCodes.get(verification.destination);
+  if (!pending || pending.expiresAt < Date.now()) {
+    const resent = await startPhoneVerification(verification.destination, verification.attempts);
+    return { extracted_data: { contact_verification: resent }, response_text: `That code has expired. ${getVerificationPrompt(resent)}` };
+  }
+
+  if (entered === pending.code) {
+    pendingCodes.delete(verification.destination);
+    return withNextQuestion(caseFile, { ...verification, status: 'VERIFIED', verified_at: Date.now() }, 'Thank you, your phone number is verified.');
+  }
+
+  const attempts = verification.attempts + 1;
+  if (attempts >= OTP_MAX_ATTEMPTS) {
+    pendingCodes.delete(verification.destination);
+    return withNextQuestion(caseFile, { ...verification, status: 'FAILED', attempts }, 'That code still does not match, so we will confirm your number later.');
+  }
+  return {
+    extracted_data: { contact_verification: { ...verification, attempts } },
+    response_text: `That code does not match. Please check the text message and try again (${OTP_MAX_ATTEMPTS - attempts} attempt(s) left), or say "resend".`
+  };
+};
@@ -0,0 +1,57 @@
+import { CaseFile } from '../types';
+import { formatForReadBack, getActiveSteps, getConstraintForSlot, getFieldValue, getStepStatus } from './stateLogic';
+import { isFieldLocked } from './fieldLocks';
+
+/**
+ * ------------------------------------------------------------------
+ * CLIENT CORRECTIONS (Symbolic Part)
+ * ------------------------------------------------------------------
+ * The Responder's schema only covers the next missing slots, so "actually it
+ * was the 12th" would otherwise be ignored. When a message reads like a correction:
+ * 1. The fields already answered are added to the scoped schema, each with
+ *    its current value, to be set only if the client changes it.
+ * 2. A changed value goes through the same validator layer as any answer.
+ * 3. The reply opens with an explicit acknowledgement of what was updated.
+ */
+
+// Phrases clients use to take back an earlier answer
+const CORRECTION_CUES = /\b(actually|correction|i meant|i mean|sorry|wait|mistake|mistaken|wrong|typo|misspoke|misspelled|spelled|spelling|not the|instead|should be|change|update|let me correct|that's not right|that isn't right)\b/i;
+
+/**
+ * Whether the message may correct an earlier answer (cheap check that gates the wider schema).
+ */
+export const detectCorrectionIntent = (userMessage: string): boolean => CORRECTION_CUES.test(userMessage);
+
+/**
+ * Answered steps the client may correct this turn, excluding the slots already in scope.
+ * Lists are left out: their "anyone else?" loop merges entries instead of replacing them.
+ * Fields locked by staff are left out too (see fieldLocks.ts).
+ */
+export const getCorrectableFields = (caseFile: CaseFile, scopedSlots: string[]): string[] =>
+  getActiveSteps(caseFile)
+    .filter(step => !step.repeat && !scopedSlots.includes(step.id) && !isFieldLocked(caseFile, step.id) && getStepStatus(step, caseFile) === 'complete')
+    .map(step => step.id);
+
+/**
+ * Responder constraint lines for the correctable fields, with their current values.
+ */
+export const getCorrectionConstraints = (caseFile: CaseFile, fieldIds: string[]): string =>
+  fieldIds.map(id => `${getConstraintForSlot(id, caseFile.case_type)} (current: ${JSON.stringify(getFieldValue(caseFile, id))})`).join('\n');
+
+/**
+ * Whether a returned value actually changes the field (null = not corrected).
+ */
+export const isCorrection = (caseFile: CaseFile, fieldId: string, value: any): boolean =>
+  value !== null && value !== undefined && JSON.stringify(value) !== JSON.stringify(getFieldValue(caseFile, fieldId));
+
+/**
+ * "Thanks for the correction. I've updated your full name to Jane Andersen."
+ */
+export const getCorrectionAcknowledgement = (caseFile: CaseFile, corrections: { field: string; value: any }[]): string => {
+  const steps = getActiveSteps(caseFile);
+  const updates = corrections.map(({ field, value }) => {
+    const label = steps.find(step => step.id === field)?.label.toLowerCase() ?? field;
+    return `${label} to ${formatForReadBack(value)}`;
+  });
+  return `Thanks for the correction. I've updated your ${updates.join(' and your ')}.`;
+};
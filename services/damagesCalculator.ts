@@ -0,0 +1,47 @@
+import { CaseFile } from '../types';
+import { parseAmount } from './fieldValidators';
+
+/**
+ * ------------------------------------------------------------------
+ * ECONOMIC DAMAGES (Symbolic Part)
+ * ------------------------------------------------------------------
+ * Totals computed from the case file, never stored on it:
+ * - Medical specials: sum of the itemized `medical.bills`.
+ * - Lost wages: `damages.lost_wages_details.amount`.
+ */
+
+export interface EconomicDamages {
+  medical_specials: number;  // USD
+  bill_count: number;        // Bills with a usable amount
+  lost_wages: number;        // USD
+  total: number;             // medical_specials + lost_wages
+}
+
+// Bills may arrive as "1,200" or "$450" from the Responder
+const toAmount = (value: unknown): number | null => {
+  const amount = parseAmount(value);
+  return amount !== null && amount > 0 ? amount : null;
+};
+
+/**
+ * Running total of the itemized medical bills.
+ */
+export const getMedicalSpecialsTotal = (caseFile: CaseFile): { total: number; count: number } => {
+  const amounts = (caseFile.medical?.bills || [])
+    .map(bill => toAmount(bill?.amount))
+    .filter((amount): amount is number => amount !== null);
+  return { total: amounts.reduce((sum, amount) => sum + amount, 0), count: amounts.length };
+};
+
+export const getEconomicDamages = (caseFile: CaseFile): EconomicDamages => {
+  const medical = getMedicalSpecialsTotal(caseFile);
+  const lostWages = caseFile.damages.lost_wages_details.has_lost_wages
+    ? toAmount(caseFile.damages.lost_wages_details.amount) ?? 0
+    : 0;
+  return {
+    medical_specials: medical.total,
+    bill_count: medical.count,
+    lost_wages: lostWages,
+    total: medical.total + lostWages
+  };
+};
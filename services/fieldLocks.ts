@@ -0,0 +1,138 @@
+import { Type } from "@google/genai";
+import { CaseFile, FieldOverride, FieldProvenance, FieldValidationResult } from '../types';
+import { checkField, getFieldValue, getSopStep, omitPatchField } from './stateLogic';
+import { getFieldSchema } from './schemaBuilder';
+import { getActiveCaseType } from './caseTypeRegistry';
+
+/**
+ * ------------------------------------------------------------------
+ * STAFF OVERRIDES & FIELD LOCKS (Symbolic Part)
+ * ------------------------------------------------------------------
+ * Intake staff fix values inline in the Visualizer:
+ * 1. The edited text is parsed to the field's schema type and checked with
+ *    the same validators as a model answer (checkField).
+ * 2. The field is locked: Responder and Thinker patches skip it
+ *    (applyFieldLocks) until staff unlock it explicitly.
+ * 3. Edits and unlocks are appended to `override_history`.
+ */
+
+// ============================================================================
+// EDITOR
+// ============================================================================
+export type FieldEditorKind = 'text' | 'number' | 'boolean' | 'enum' | 'json';
+
+/**
+ * Input control for a field, from its schema definition (structs and lists are edited as JSON).
+ */
+export const getFieldEditor = (caseFile: CaseFile, fieldId: string): { kind: FieldEditorKind; options?: string[] } => {
+  const schema = getFieldSchema(fieldId, getActiveCaseType(caseFile));
+  if (Array.isArray(schema?.enum)) return { kind: 'enum', options: schema.enum };
+  switch (schema?.type) {
+    case Type.BOOLEAN: return { kind: 'boolean' };
+    case Type.NUMBER:
+    case Type.INTEGER: return { kind: 'number' };
+    case Type.OBJECT:
+    case Type.ARRAY: return { kind: 'json' };
+    default: return { kind: 'text' };
+  }
+};
+
+/**
+ * Current value as editor text.
+ */
+export const toEditorText = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value);
+};
+
+// Editor text -> typed value. Undefined when the text cannot be read as the field's type.
+const parseEditorText = (kind: FieldEditorKind, text: string): any => {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+  switch (kind) {
+    case 'boolean':
+      if (/^(yes|true)$/i.test(trimmed)) return true;
+      return /^(no|false)$/i.test(trimmed) ? false : undefined;
+    case 'number': {
+      const amount = Number(trimmed.replace(/[$,\s]/g, ''));
+      return isFinite(amount) ? amount : undefined;
+    }
+    case 'json':
+      try {
+        return JSON.parse(trimmed);
+      } catch {
+        return undefined;
+      }
+    default:
+      return trimmed;
+  }
+};
+
+// ============================================================================
+// LOCKS
+// ============================================================================
+export const isFieldLocked = (caseFile: CaseFile, fieldId: string): boolean =>
+  (caseFile.locked_fields || []).includes(fieldId);
+
+const appendOverride = (caseFile: CaseFile, override: FieldOverride): FieldOverride[] =>
+  [...(caseFile.override_history || []), override];
+
+/**
+ * Staff edit: the patch setting the value, locking the field and recording the edit,
+ * or null with the validation failure to show next to the input.
+ */
+export const editField = (
+  caseFile: CaseFile,
+  fieldId: string,
+  text: string,
+  now: number = Date.now()
+): { patch: Partial<CaseFile> | null; validation: FieldValidationResult } => {
+  if (!getSopStep(fieldId, caseFile.case_type)) {
+    throw new Error(`[LOCKS] Unknown field: ${fieldId}`);
+  }
+
+  const value = parseEditorText(getFieldEditor(caseFile, fieldId).kind, text);
+  if (value === undefined) {
+    return { patch: null, validation: { valid: false, code: 'wrong_type', message: 'That value does not match the field type.' } };
+  }
+  const validation = checkField(fieldId, value, caseFile.case_type);
+  if (!validation.valid) return { patch: null, validation };
+
+  const [vector, field] = fieldId.split('.');
+  const patch: Partial<CaseFile> = {
+    [vector]: { [field]: value },
+    locked_fields: isFieldLocked(caseFile, fieldId) ? caseFile.locked_fields : [...(caseFile.locked_fields || []), fieldId],
+    override_history: appendOverride(caseFile, { field: fieldId, action: 'edit', from: getFieldValue(caseFile, fieldId), to: value, at: now }),
+    field_confidence: { [fieldId]: 1 } // Staff values are never read back to the client
+  };
+  return { patch, validation };
+};
+
+/**
+ * Explicit unlock: the models may write the field again. Empty patch when it was not locked.
+ */
+export const unlockField = (caseFile: CaseFile, fieldId: string, now: number = Date.now()): Partial<CaseFile> => {
+  if (!isFieldLocked(caseFile, fieldId)) return {};
+  const value = getFieldValue(caseFile, fieldId);
+  return {
+    locked_fields: (caseFile.locked_fields || []).filter(id => id !== fieldId),
+    override_history: appendOverride(caseFile, { field: fieldId, action: 'unlock', from: value, to: value, at: now })
+  };
+};
+
+// ============================================================================
+// MODEL PATCHES
+// ============================================================================
+
+/**
+ * Drops locked fields (and their confidence) from a Responder or Thinker patch.
+ * Applied against the latest case file at merge time, so a lock set mid-turn holds.
+ */
+export const applyFieldLocks = (caseFile: CaseFile, patch: Partial<CaseFile>): Partial<CaseFile> =>
+  (caseFile.locked_fields || []).reduce((filtered, fieldId) => omitPatchField(filtered, fieldId).patch, patch);
+
+/**
+ * Provenance entries for fields the models were allowed to write.
+ */
+export const dropLockedEntries = (caseFile: CaseFile, entries: FieldProvenance[] | undefined): FieldProvenance[] =>
+  (entries || []).filter(entry => !isFieldLocked(caseFile, entry.field));
@@ -0,0 +1,283 @@
+import { FieldValidationResult, ValidationCode } from '../types';
+import { parseJurisdiction, getJurisdictionFollowUp } from './jurisdictionParser';
+
+/**
+ * ------------------------------------------------------------------
+ * SYMBOLIC FIELD VALIDATORS
+ * ------------------------------------------------------------------
+ * Two ways a field picks up rules, both composed by validateField:
+ * 1. NAMED RULES (FIELD_VALIDATORS): referenced by SOP steps through their
+ *    `validator` key. The SOP loader rejects a name missing from this table.
+ * 2. FIELD RULES (registerFieldValidators): format rules attached to a field
+ *    id, applied whichever SOP asks the field (email, phone, dates).
+ *
+ * Every validator receives a non-null value (the null check happens in
+ * validateField) and returns a FieldValidationResult. Failures carry a
+ * machine-readable `code` and a client-facing `message` used as the re-ask.
+ */
+
+export type FieldValidator = (value: any) => FieldValidationResult;
+
+const VALID: FieldValidationResult = { valid: true };
+
+const fail = (code: ValidationCode, message: string, member?: string): FieldValidationResult =>
+  ({ valid: false, code, message, member });
+
+// ============================================================================
+// BUILDING BLOCKS
+// ============================================================================
+
+/**
+ * Runs validators in order and returns the first failure.
+ */
+export const all = (...validators: FieldValidator[]): FieldValidator => (value) => {
+  for (const validator of validators) {
+    const result = validator(value);
+    if (!result.valid) return result;
+  }
+  return VALID;
+};
+
+/**
+ * Applies a validator to one member of a struct, skipping null members.
+ */
+export const member = (key: string, validator: FieldValidator): FieldValidator => (value) => {
+  const memberValue = value?.[key];
+  if (memberValue === null || memberValue === undefined) return VALID;
+  const result = validator(memberValue);
+  return result.valid ? result : { ...result, member: result.member ?? key };
+};
+
+/**
+ * Struct member that must be answered (e.g. the has_injury flag).
+ */
+export const requiredMember = (key: string, message: string): FieldValidator => (value) =>
+  value?.[key] === null || value?.[key] === undefined ? fail('required', message, key) : VALID;
+
+/**
+ * Struct dependency: when `flag` holds `equals`, `dependent` must be filled
+ * (and pass `check`, when given). E.g. has_lost_wages === true -> amount.
+ */
+export const dependency = (
+  flag: string,
+  equals: any,
+  dependent: string,
+  message: string,
+  check?: FieldValidator
+): FieldValidator => (value) => {
+  if (value?.[flag] !== equals) return VALID;
+  const dependentValue = value?.[dependent];
+  if (dependentValue === null || dependentValue === undefined || dependentValue === '') {
+    return fail('missing_dependent', message, dependent);
+  }
+  return check ? member(dependent, check)(value) : VALID;
+};
+
+/**
+ * List field: at least `min` entries, each passing `item`. Failures point at
+ * the entry, e.g. member "1.phone".
+ */
+export const listOf = (item: FieldValidator, options: { min?: number; message: string }): FieldValidator => (value) => {
+  if (!Array.isArray(value)) return fail('wrong_type', options.message);
+  if (value.length < (options.min ?? 0)) return fail('too_few_items', options.message);
+  for (let index = 0; index < value.length; index++) {
+    const result = item(value[index]);
+    if (!result.valid) return { ...result, member: result.member ? `${index}.${result.member}` : String(index) };
+  }
+  return VALID;
+};
+
+export const oneOf = (allowed: readonly any[]): FieldValidator => (value) =>
+  allowed.includes(value) ? VALID : fail('not_in_enum', `Please choose one of: ${allowed.join(', ')}.`);
+
+export const minWords = (count: number, message: string): FieldValidator => (value) => {
+  if (typeof value !== 'string') return fail('wrong_type', message);
+  return value.trim().split(/\s+/).length >= count ? VALID : fail('too_short', message);
+};
+
+// RFC 5322 dot-atom local part + hostname labels (no quoted local parts / IP literals)
+const EMAIL_PATTERN = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*@([A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?\.)+[A-Za-z]{2,63}$/;
+
+export const email = (): FieldValidator => (value) => {
+  const message = "That email address doesn't look complete. Could you spell it out again, e.g. name@example.com?";
+  if (typeof value !== 'string') return fail('wrong_type', message);
+  const [local] = value.split('@');
+  if (value.length > 254 || local.length > 64 || !EMAIL_PATTERN.test(value)) return fail('invalid_email', message);
+  return VALID;
+};
+
+// E.164: "+", country code (no leading 0), up to 15 digits in total
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+export const phoneE164 = (): FieldValidator => (value) => {
+  const message = 'Could you give me the full phone number, including the area code (and country code if outside the US)?';
+  if (typeof value !== 'string') return fail('wrong_type', message);
+  return E164_PATTERN.test(value) ? VALID : fail('invalid_phone', message);
+};
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * The client's calendar date (local time) as YYYY-MM-DD. `toISOString` would give the
+ * UTC date, which is already tomorrow on a US evening.
+ */
+export const toLocalIsoDate = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Real calendar date in YYYY-MM-DD, not in the future (client's local date) and not before `minYear`.
+ */
+export const isoDate = (label: string, options: { allowFuture?: boolean; minYear?: number } = {}): FieldValidator => (value) => {
+  const { allowFuture = false, minYear = 1900 } = options;
+  const match = typeof value === 'string' ? ISO_DATE_PATTERN.exec(value) : null;
+  if (!match) return fail('invalid_date', `Could you tell me the exact ${label} (day, month and year)?`);
+
+  const date = new Date(`${value}T00:00:00Z`);
+  if (isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    return fail('invalid_date', `That ${label} doesn't seem to exist on the calendar. Could you double-check it?`);
+  }
+  if (Number(match[1]) < minYear) {
+    return fail('date_too_old', `The ${label} seems to be before ${minYear}. Could you double-check the year?`);
+  }
+  const today = toLocalIsoDate();
+  if (!allowFuture && value > today) {
+    return fail('date_in_future', `The ${label} can't be in the future. Could you double-check it?`);
+  }
+  return VALID;
+};
+
+/**
+ * Dollar amount as a number. The Responder may store "$5,000" or "1,200" instead of 5000 / 1200.
+ */
+export const parseAmount = (value: unknown): number | null => {
+  const amount = typeof value === 'string' ? Number(value.replace(/[$,\s]/g, '')) : value;
+  return typeof amount === 'number' && isFinite(amount) ? amount : null;
+};
+
+/**
+ * Positive amount (numbers or numeric strings, read with parseAmount) within sane bounds.
+ */
+export const currency = (label: string, options: { max?: number } = {}): FieldValidator => (value) => {
+  const { max = 10_000_000 } = options;
+  const amount = parseAmount(value);
+  if (amount === null) return fail('wrong_type', `Roughly how much was the ${label}, in dollars?`);
+  if (amount <= 0) return fail('not_positive', `Roughly how much was the ${label}, in dollars?`);
+  if (amount > max) return fail('out_of_range', `That ${label} seems unusually high. Could you confirm the amount in dollars?`);
+  return VALID;
+};
+
+// ============================================================================
+// NAMED RULES (referenced by SOP steps)
+// ============================================================================
+export const FIELD_VALIDATORS: Record<string, FieldValidator> = {
+  // DEFAULT (Primitives) -> If not null, it's done.
+  required: () => VALID,
+
+  // FULL NAME: Must be at least 2 words (First + Last)
+  full_name: minWords(2, 'Could you please provide your full name (first and last)?'),
+
+  // JURISDICTION: Must resolve to a single city/county + state (e.g. "Springfield" alone is ambiguous)
+  jurisdiction: (value) => {
+    if (typeof value !== 'string') return fail('wrong_type', 'Could you tell me the city and state where it happened?');
+    const result = parseJurisdiction(value);
+    if (result.status === 'resolved') return VALID;
+    return fail(result.status === 'ambiguous' ? 'ambiguous_location' : 'incomplete_location', getJurisdictionFollowUp(result)!);
+  },
+
+  // FAULT ADMISSION: If Yes, need statement.
+  fault_admission: all(
+    requiredMember('status', 'Did the other party admit fault in any way?'),
+    member('status', oneOf(['Yes', 'No', 'Unknown'])),
+    dependency('status', 'Yes', 'statement', 'What exactly did they say when they admitted fault?')
+  ),
+
+  // INJURIES: If Yes, need description.
+  injury_details: all(
+    requiredMember('has_injury', 'Were you injured in the incident?'),
+    dependency('has_injury', true, 'description', 'Could you describe your injuries?')
+  ),
+
+  // HOSPITALIZATION: If Yes, need duration.
+  hospitalization_details: all(
+    requiredMember('was_hospitalized', 'Were you admitted to a hospital?'),
+    dependency('was_hospitalized', true, 'duration', 'How long were you in the hospital?')
+  ),
+
+  // LOST WAGES: If Yes, need a positive amount.
+  lost_wages_details: all(
+    requiredMember('has_lost_wages', 'Have you lost any wages because of the incident?'),
+    dependency('has_lost_wages', true, 'amount', 'Roughly how much in wages have you lost?', currency('lost wages amount'))
+  ),
+
+  // PARTIES: At least one, each named (conflict check needs the name).
+  parties: listOf(
+    all(
+      requiredMember('name', 'What is the full name of the person or company responsible?'),
+      member('role', oneOf(['Driver', 'Owner', 'Employer', 'Business', 'Medical Provider', 'Other']))
+    ),
+    { min: 1, message: 'Who is the claim against? Please give their full name.' }
+  ),
+
+  // VEHICLES: May be empty (single-vehicle accident), each described.
+  vehicles: listOf(
+    requiredMember('description', 'Could you describe the other vehicle (make, model or color)?'),
+    { message: 'Could you describe the other vehicles involved?' }
+  ),
+
+  // WITNESSES: At least one (only asked when witnesses were present), contact details well-formed.
+  witnesses: listOf(
+    all(
+      requiredMember('name', "What is the witness's name?"),
+      member('phone', phoneE164()),
+      member('email', email())
+    ),
+    { min: 1, message: 'Could you tell me the name of the witness, and a phone number or email if you have one?' }
+  ),
+
+  // MEDICAL PROVIDERS: At least one (only asked after treatment), each named.
+  medical_providers: listOf(
+    all(
+      requiredMember('name', 'What is the name of the hospital, clinic or doctor that treated you?'),
+      member('type', oneOf(['Hospital', 'Emergency Room', 'Urgent Care', 'Primary Care', 'Chiropractor', 'Physical Therapy', 'Specialist', 'Other']))
+    ),
+    { min: 1, message: 'Where did you receive treatment? Please name the hospital, clinic or doctor.' }
+  ),
+
+  // MEDICAL BILLS: May be empty (no bills yet), each with a positive amount.
+  medical_bills: listOf(
+    all(
+      requiredMember('amount', 'Roughly how much was that bill, in dollars?'),
+      member('amount', currency('medical bill', { max: 5_000_000 }))
+    ),
+    { message: 'Could you list your medical bills so far, with the approximate amount of each?' }
+  ),
+
+  // FORMAT RULES (also registered per field below)
+  email: email(),
+  phone: phoneE164(),
+  past_date: isoDate('date'),
+};
+
+export const DEFAULT_VALIDATOR = 'required';
+
+// ============================================================================
+// FIELD RULES (registry keyed by field id)
+// ============================================================================
+const fieldRegistry = new Map<string, FieldValidator[]>();
+
+/**
+ * Attaches validators to a field id, in addition to the SOP step's named rule.
+ */
+export const registerFieldValidators = (fieldId: string, ...validators: FieldValidator[]): void => {
+  fieldRegistry.set(fieldId, [...(fieldRegistry.get(fieldId) || []), ...validators]);
+};
+
+export const getFieldValidators = (fieldId: string): FieldValidator[] => fieldRegistry.get(fieldId) || [];
+
+registerFieldValidators('contact.email', email());
+registerFieldValidators('contact.phone_number', phoneE164());
+registerFieldValidators('incident.accident_date', isoDate('date of the incident'));
+registerFieldValidators('malpractice.discovery_date', isoDate('date you discovered the problem'));
+registerFieldValidators('employment.report_date', isoDate('date you reported the injury'));
+registerFieldValidators('medical.first_treatment_date', isoDate('date of your first treatment'));
+registerFieldValidators('medical.last_treatment_date', isoDate('date of your last treatment'));
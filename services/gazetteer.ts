@@ -0,0 +1,176 @@
+/**
+ * ------------------------------------------------------------------
+ * OFFLINE GAZETTEER
+ * ------------------------------------------------------------------
+ * US places the jurisdiction parser can resolve without a network call:
+ * the largest cities plus the common names shared by several states
+ * (Springfield, Portland, Columbus, ...), which must trigger a follow-up.
+ *
+ * Cities missing here still resolve when the client names the state;
+ * only the county stays unknown.
+ */
+
+export interface GazetteerEntry {
+  city: string;
+  county: string;
+  state: string;        // USPS code
+  aliases?: string[];   // Lowercase nicknames ("nyc", "philly")
+}
+
+type Row = [city: string, county: string, state: string, aliases?: string[]];
+
+const ROWS: Row[] = [
+  // --- Largest cities ---
+  ['New York', 'New York County', 'NY', ['nyc', 'new york city', 'manhattan']],
+  ['Brooklyn', 'Kings County', 'NY'],
+  ['Queens', 'Queens County', 'NY'],
+  ['Bronx', 'Bronx County', 'NY', ['the bronx']],
+  ['Staten Island', 'Richmond County', 'NY'],
+  ['Buffalo', 'Erie County', 'NY'],
+  ['Los Angeles', 'Los Angeles County', 'CA', ['la', 'l.a.']],
+  ['San Diego', 'San Diego County', 'CA'],
+  ['San Jose', 'Santa Clara County', 'CA'],
+  ['San Francisco', 'San Francisco County', 'CA', ['sf']],
+  ['Fresno', 'Fresno County', 'CA'],
+  ['Sacramento', 'Sacramento County', 'CA'],
+  ['Oakland', 'Alameda County', 'CA'],
+  ['Long Beach', 'Los Angeles County', 'CA'],
+  ['Bakersfield', 'Kern County', 'CA'],
+  ['Anaheim', 'Orange County', 'CA'],
+  ['Chicago', 'Cook County', 'IL'],
+  ['Houston', 'Harris County', 'TX'],
+  ['San Antonio', 'Bexar County', 'TX'],
+  ['Dallas', 'Dallas County', 'TX'],
+  ['Austin', 'Travis County', 'TX'],
+  ['Fort Worth', 'Tarrant County', 'TX'],
+  ['El Paso', 'El Paso County', 'TX'],
+  ['Corpus Christi', 'Nueces County', 'TX'],
+  ['Plano', 'Collin County', 'TX'],
+  ['Phoenix', 'Maricopa County', 'AZ'],
+  ['Tucson', 'Pima County', 'AZ'],
+  ['Mesa', 'Maricopa County', 'AZ'],
+  ['Scottsdale', 'Maricopa County', 'AZ'],
+  ['Philadelphia', 'Philadelphia County', 'PA', ['philly']],
+  ['Pittsburgh', 'Allegheny County', 'PA'],
+  ['Jacksonville', 'Duval County', 'FL'],
+  ['Miami', 'Miami-Dade County', 'FL'],
+  ['Tampa', 'Hillsborough County', 'FL'],
+  ['Orlando', 'Orange County', 'FL'],
+  ['Tallahassee', 'Leon County', 'FL'],
+  ['Indianapolis', 'Marion County', 'IN', ['indy']],
+  ['Seattle', 'King County', 'WA'],
+  ['Spokane', 'Spokane County', 'WA'],
+  ['Tacoma', 'Pierce County', 'WA'],
+  ['Denver', 'Denver County', 'CO'],
+  ['Colorado Springs', 'El Paso County', 'CO'],
+  ['Boston', 'Suffolk County', 'MA'],
+  ['Worcester', 'Worcester County', 'MA'],
+  ['Nashville', 'Davidson County', 'TN'],
+  ['Memphis', 'Shelby County', 'TN'],
+  ['Knoxville', 'Knox County', 'TN'],
+  ['Detroit', 'Wayne County', 'MI'],
+  ['Grand Rapids', 'Kent County', 'MI'],
+  ['Oklahoma City', 'Oklahoma County', 'OK', ['okc']],
+  ['Tulsa', 'Tulsa County', 'OK'],
+  ['Las Vegas', 'Clark County', 'NV', ['vegas']],
+  ['Reno', 'Washoe County', 'NV'],
+  ['Louisville', 'Jefferson County', 'KY'],
+  ['Lexington', 'Fayette County', 'KY'],
+  ['Baltimore', 'Baltimore City', 'MD'],
+  ['Milwaukee', 'Milwaukee County', 'WI'],
+  ['Madison', 'Dane County', 'WI'],
+  ['Albuquerque', 'Bernalillo County', 'NM'],
+  ['Omaha', 'Douglas County', 'NE'],
+  ['Atlanta', 'Fulton County', 'GA'],
+  ['Savannah', 'Chatham County', 'GA'],
+  ['Raleigh', 'Wake County', 'NC'],
+  ['Charlotte', 'Mecklenburg County', 'NC'],
+  ['Durham', 'Durham County', 'NC'],
+  ['Virginia Beach', 'Virginia Beach City', 'VA'],
+  ['Norfolk', 'Norfolk City', 'VA'],
+  ['Minneapolis', 'Hennepin County', 'MN'],
+  ['Saint Paul', 'Ramsey County', 'MN', ['st. paul', 'st paul']],
+  ['New Orleans', 'Orleans Parish', 'LA', ['nola']],
+  ['Baton Rouge', 'East Baton Rouge Parish', 'LA'],
+  ['Cleveland', 'Cuyahoga County', 'OH'],
+  ['Cincinnati', 'Hamilton County', 'OH'],
+  ['Toledo', 'Lucas County', 'OH'],
+  ['Honolulu', 'Honolulu County', 'HI'],
+  ['Anchorage', 'Anchorage Municipality', 'AK'],
+  ['Newark', 'Essex County', 'NJ'],
+  ['Jersey City', 'Hudson County', 'NJ'],
+  ['Salt Lake City', 'Salt Lake County', 'UT', ['slc']],
+  ['Boise', 'Ada County', 'ID'],
+  ['Des Moines', 'Polk County', 'IA'],
+  ['Little Rock', 'Pulaski County', 'AR'],
+  ['Birmingham', 'Jefferson County', 'AL'],
+  ['Providence', 'Providence County', 'RI'],
+  ['Hartford', 'Hartford County', 'CT'],
+  ['Bridgeport', 'Fairfield County', 'CT'],
+  ['Manchester', 'Hillsborough County', 'NH'],
+  ['Burlington', 'Chittenden County', 'VT'],
+  ['Sioux Falls', 'Minnehaha County', 'SD'],
+  ['Fargo', 'Cass County', 'ND'],
+  ['Billings', 'Yellowstone County', 'MT'],
+  ['Cheyenne', 'Laramie County', 'WY'],
+  ['Washington', 'District of Columbia', 'DC', ['washington dc', 'washington d.c.', 'd.c.']],
+
+  // --- Names shared by several states (ambiguous without a state) ---
+  ['Springfield', 'Sangamon County', 'IL'],
+  ['Springfield', 'Hampden County', 'MA'],
+  ['Springfield', 'Greene County', 'MO'],
+  ['Springfield', 'Clark County', 'OH'],
+  ['Springfield', 'Lane County', 'OR'],
+  ['Portland', 'Multnomah County', 'OR'],
+  ['Portland', 'Cumberland County', 'ME'],
+  ['Columbus', 'Franklin County', 'OH'],
+  ['Columbus', 'Muscogee County', 'GA'],
+  ['Columbus', 'Bartholomew County', 'IN'],
+  ['Kansas City', 'Jackson County', 'MO'],
+  ['Kansas City', 'Wyandotte County', 'KS'],
+  ['Jacksonville', 'Onslow County', 'NC'],
+  ['Aurora', 'Arapahoe County', 'CO'],
+  ['Aurora', 'Kane County', 'IL'],
+  ['Arlington', 'Tarrant County', 'TX'],
+  ['Arlington', 'Arlington County', 'VA'],
+  ['Richmond', 'Richmond City', 'VA'],
+  ['Richmond', 'Contra Costa County', 'CA'],
+  ['Richmond', 'Wayne County', 'IN'],
+  ['Glendale', 'Maricopa County', 'AZ'],
+  ['Glendale', 'Los Angeles County', 'CA'],
+  ['Pasadena', 'Los Angeles County', 'CA'],
+  ['Pasadena', 'Harris County', 'TX'],
+  ['Columbia', 'Richland County', 'SC'],
+  ['Columbia', 'Boone County', 'MO'],
+  ['Columbia', 'Howard County', 'MD'],
+  ['Rochester', 'Monroe County', 'NY'],
+  ['Rochester', 'Olmsted County', 'MN'],
+  ['Lafayette', 'Lafayette Parish', 'LA'],
+  ['Lafayette', 'Tippecanoe County', 'IN'],
+  ['Wilmington', 'New Castle County', 'DE'],
+  ['Wilmington', 'New Hanover County', 'NC'],
+  ['Charleston', 'Charleston County', 'SC'],
+  ['Charleston', 'Kanawha County', 'WV'],
+  ['Greenville', 'Greenville County', 'SC'],
+  ['Greenville', 'Pitt County', 'NC'],
+  ['Albany', 'Albany County', 'NY'],
+  ['Albany', 'Dougherty County', 'GA'],
+  ['Athens', 'Clarke County', 'GA'],
+  ['Athens', 'Athens County', 'OH'],
+  ['Salem', 'Marion County', 'OR'],
+  ['Salem', 'Essex County', 'MA'],
+  ['Bloomington', 'McLean County', 'IL'],
+  ['Bloomington', 'Monroe County', 'IN'],
+  ['Bloomington', 'Hennepin County', 'MN'],
+  ['Fayetteville', 'Washington County', 'AR'],
+  ['Fayetteville', 'Cumberland County', 'NC'],
+  ['Lexington', 'Middlesex County', 'MA'],
+  ['Madison', 'Madison County', 'AL'],
+  ['Manchester', 'Hartford County', 'CT'],
+  ['Newark', 'New Castle County', 'DE'],
+  ['Birmingham', 'Oakland County', 'MI'],
+  ['Burlington', 'Alamance County', 'NC'],
+  ['Cleveland', 'Bradley County', 'TN'],
+];
+
+export const GAZETTEER: GazetteerEntry[] = ROWS.map(([city, county, state, aliases]) => ({ city, county, state, aliases }));
@@ -1,17 +1,29 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { CaseFile, IntakeTurnResponse, AuditResponse, LatencyMetrics, LogEntry, LLMConfig, LLMProvider, DEFAULT_MODELS, ApiCallLog } from '../types';
-import { getSystemInstructionForSlot, getNextNMissingSlots, getNextMissingSlot, validateField, getTemplateQuestionForSlot } from './stateLogic';
-import { generateScopedSchema } from './schemaBuilder';
-import { INTAKE_STEPS, MOCK_CLIENT_DB } from '../constants';
+import { Type } from "@google/genai";
+import { CaseFile, CaseClassification, FieldValidationResult, IntakeTurnResponse, AuditResponse, LatencyMetrics, LogEntry, LLMConfig, LLMProvider, DEFAULT_MODELS, DEFAULT_THINKER_MODELS, ApiCallLog } from '../types';
+import { getNextNMissingSlots, getNextMissingSlot, checkField, getSopStep, getTemplateQuestionForSlot, getConstraintForSlot, getFieldValue, isListClosed, mergeCaseFilePatch, mergeListAnswer, readFieldConfidence } from './stateLogic';
+import { generateScopedSchema, generateAuditSchema, toJsonSchema } from './schemaBuilder';
+import { getActiveCaseType, listCaseTypes } from './caseTypeRegistry';
+import { classifyByKeywords, buildRoutingTurn, resolvePendingConfirmation } from './caseClassifier';
+import { applyStatuteOfLimitations, getSolClosingMessage } from './statuteOfLimitations';
+import { advanceLifecycle, isCaseOpen } from './caseLifecycle';
+import { declineCase, getReferralTrigger, getDeclineMessage, resolveReferralConsentReply } from './referrals';
+import { applyJurisdictionNormalization } from './jurisdictionParser';
+import { toLocalIsoDate } from './fieldValidators';
+import { needsPhoneVerification, startPhoneVerification, getVerificationPrompt, resolveVerificationReply } from './contactVerification';
+import { buildProvenance } from './provenance';
+import { detectCorrectionIntent, getCorrectableFields, getCorrectionConstraints, isCorrection, getCorrectionAcknowledgement } from './corrections';
+import { getReviewFeedback } from './auditReview';
+import { getOpenClarification, getClarificationFields, getClarificationContext, markClarificationAsked, resolveClarification, getClarificationFeedback } from './clarifications';
 import {
     addApiCallLog,
     getApiCallLogs,
     clearApiCallLogs,
     estimateTokenCount,
-    callOpenAI,
-    callClaude,
-    callOllama,
+    generateText,
+    getProvider,
+    isProviderConfigured,
+    LLMMessage,
     LLMResponse,
     DEFAULT_LLM_CONFIG
 } from './llmProviders';
@@ -19,8 +31,6 @@ import {
 // Re-export for backward compatibility
 export { getApiCallLogs, clearApiCallLogs };
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY || "" });
-
 // ============================================================================
 // LLM CONFIGURATION STATE
 // ============================================================================
@@ -33,6 +43,16 @@ export const setLLMConfig = (config: LLMConfig): void => {
 
 export const getLLMConfig = (): LLMConfig => ({ ...currentLLMConfig });
 
+// The Thinker has its own provider (e.g. a larger local model auditing a fast hosted Responder)
+let currentThinkerConfig: LLMConfig = DEFAULT_LLM_CONFIG;
+
+export const setThinkerConfig = (config: LLMConfig): void => {
+    currentThinkerConfig = { ...config };
+    console.log(`[LLM CONFIG] Thinker provider set to: ${config.provider}, Model: ${config.modelName || DEFAULT_THINKER_MODELS[config.provider]}`);
+};
+
+export const getThinkerConfig = (): LLMConfig => ({ ...currentThinkerConfig });
+
 // ============================================================================
 // LOGGING UTILITY
 // ============================================================================
@@ -85,50 +105,133 @@ const cleanJsonResponse = (text: string): string => {
     return cleaned.trim();
 };
 
-const checkConflictInDb = (name: string): boolean => {
-    if (!name) return false;
-    const normalizedInput = name.toLowerCase().trim();
-    return MOCK_CLIENT_DB.some(client => client.toLowerCase() === normalizedInput);
-};
-
 // ============================================================================
-// GEMINI INTERNAL CALL (with token logging)
+// MODEL CALLS (both go through the provider registry)
 // ============================================================================
-const callGeminiInternal = async (
+const callResponderModel = (
     systemInstruction: string,
     userMessage: string,
-    apiHistory: any[],
-    responseSchema: any,
-    modelName: string = 'gemini-flash-lite-latest',
-    stopSequences?: string[]
+    history: LLMMessage[],
+    responseSchema: any
+): Promise<LLMResponse> =>
+    generateText(currentLLMConfig, { systemInstruction, prompt: userMessage, history, responseSchema });
+
+const isResponderModelAvailable = (): boolean => isProviderConfigured(currentLLMConfig);
+
+const THINKER_MAX_TOKENS = 4096; // The audit returns corrected vectors + reasoning
+
+const callThinkerModel = (
+    systemInstruction: string,
+    prompt: string,
+    responseSchema: any
 ): Promise<LLMResponse> => {
-    const response = await ai.models.generateContent({
-        model: modelName,
-        contents: [
-            ...apiHistory,
-            { role: 'user', parts: [{ text: userMessage }] }
-        ],
-        config: {
-            systemInstruction,
-            responseMimeType: "application/json",
-            responseSchema,
-            temperature: 0,
-            thinkingConfig: { thinkingBudget: 0 },
-            stopSequences
+    const provider = getProvider(currentThinkerConfig.provider);
+    // Providers that cannot enforce the schema get it in the instruction as JSON Schema
+    const instruction = provider.structuredOutput === 'schema'
+        ? systemInstruction
+        : `${systemInstruction}\n\n### OUTPUT FORMAT\nReturn ONLY a JSON object matching this JSON Schema (omit fields you do not change from corrected_data):\n${JSON.stringify(toJsonSchema(responseSchema))}`;
+
+    return generateText(
+        { ...currentThinkerConfig, modelName: currentThinkerConfig.modelName || DEFAULT_THINKER_MODELS[provider.id] },
+        { systemInstruction: instruction, prompt, responseSchema, temperature: 0.1, maxTokens: THINKER_MAX_TOKENS, reasoning: true }
+    );
+};
+
+/**
+ * Nulls in corrected_data mean "unchanged" (strict decoders must fill every key); the fields
+ * listed in invalidated_fields become nulls, so they go through the same locks, review and
+ * provenance as any other correction.
+ */
+const applyInvalidatedFields = (audit: AuditResponse, sopFieldIds: string[]): void => {
+    Object.entries(audit.corrected_data).forEach(([vector, fields]) => {
+        if (fields === null) {
+            delete (audit.corrected_data as any)[vector];
+            return;
         }
+        if (typeof fields !== 'object' || Array.isArray(fields)) return;
+        const changed = Object.entries(fields).filter(([, value]) => value !== null);
+        if (changed.length > 0) (audit.corrected_data as any)[vector] = Object.fromEntries(changed);
+        else delete (audit.corrected_data as any)[vector];
     });
+    const invalidated = (Array.isArray(audit.invalidated_fields) ? audit.invalidated_fields : [])
+        .filter((fieldId): fieldId is string => typeof fieldId === 'string' && sopFieldIds.includes(fieldId));
+    invalidated.forEach(fieldId => {
+        const [vector, field] = fieldId.split('.');
+        const current = (audit.corrected_data as any)[vector];
+        (audit.corrected_data as any)[vector] = { ...(current && typeof current === 'object' ? current : {}), [field]: null };
+    });
+    audit.invalidated_fields = invalidated;
+};
 
-    const rawOutput = response.text || "{}";
-
-    // Gemini API returns usage metadata
-    const usageMetadata = (response as any).usageMetadata || {};
+// ============================================================================
+// CASE TYPE ROUTER (runs ahead of processTurn while case_type is null)
+// ============================================================================
+const classifyWithModel = async (clientText: string): Promise<CaseClassification | null> => {
+    const caseTypeIds = listCaseTypes().map(t => t.id);
+    const systemInstruction = `Classify a prospective client's legal matter for a personal injury firm.
+Practice areas:
+${listCaseTypes().map(t => ` - ${t.id}: ${t.description}`).join('\n')}
+ - out_of_scope: Not a personal injury matter (family, criminal, contracts, ...).
+ - unknown: Not enough information yet.
+Return JSON with "case_type", "confidence" (0-1) and a one-sentence "reasoning".`;
 
-    return {
-        text: rawOutput,
-        inputTokens: usageMetadata.promptTokenCount || estimateTokenCount(systemInstruction + userMessage),
-        outputTokens: usageMetadata.candidatesTokenCount || estimateTokenCount(rawOutput),
-        rawResponse: response
+    const responseSchema = {
+        type: Type.OBJECT,
+        properties: {
+            case_type: { type: Type.STRING, enum: [...caseTypeIds, 'out_of_scope', 'unknown'] },
+            confidence: { type: Type.NUMBER },
+            reasoning: { type: Type.STRING }
+        },
+        required: ['case_type', 'confidence']
     };
+
+    const apiCallStart = performance.now();
+    try {
+        const llmResponse = await callResponderModel(systemInstruction, clientText, [], responseSchema);
+        addApiCallLog({
+            timestamp: Date.now(),
+            model: 'responder',
+            provider: currentLLMConfig.provider,
+            modelName: currentLLMConfig.modelName || DEFAULT_MODELS[currentLLMConfig.provider],
+            inputPrompt: `System: ${systemInstruction}\n\nUser: ${clientText}`,
+            inputTokens: llmResponse.inputTokens,
+            outputString: llmResponse.text,
+            outputTokens: llmResponse.outputTokens,
+            timeTakenMs: Math.round(performance.now() - apiCallStart)
+        });
+
+        const parsed = JSON.parse(cleanJsonResponse(llmResponse.text));
+        const caseType = [...caseTypeIds, 'out_of_scope'].includes(parsed.case_type) ? parsed.case_type : null;
+        const confidence = typeof parsed.confidence === 'number' ? Math.max(0, Math.min(1, parsed.confidence)) : 0;
+        return { case_type: caseType, confidence: caseType ? confidence : 0, method: 'llm', confirmed: false, reasoning: parsed.reasoning || null };
+    } catch (error: any) {
+        log('responder', 'output', `[ROUTER] Model classification failed, using keyword fallback: ${error.message || 'Unknown error'}`);
+        return null;
+    }
+};
+
+/**
+ * Classifies the opening messages into a practice area before the SOP starts.
+ * Uses the configured model when one is reachable, otherwise (or on failure)
+ * the deterministic keyword classifier, so routing also works offline.
+ */
+export const routeCaseType = async (
+    history: { role: string; content: string }[],
+    currentCaseFile: CaseFile,
+    userMessage: string
+): Promise<IntakeTurnResponse> => {
+    // 1. A plain yes/no to a pending confirmation needs no model call
+    const confirmation = resolvePendingConfirmation(currentCaseFile, userMessage);
+    if (confirmation) return { ...confirmation, base_version: currentCaseFile.version };
+
+    // 2. Classify everything the client has said so far
+    const clientText = [...history.filter(m => m.role === 'user').map(m => m.content), userMessage].join('\n');
+    const classification = (isResponderModelAvailable() ? await classifyWithModel(clientText) : null)
+        ?? classifyByKeywords(clientText);
+
+    log('responder', 'output', `[ROUTER] ${classification.case_type ?? 'unknown'} (${classification.method}, confidence ${classification.confidence})`, classification);
+
+    return { ...buildRoutingTurn(currentCaseFile, classification), base_version: currentCaseFile.version };
 };
 
 // ============================================================================
@@ -138,7 +241,18 @@ const callGeminiInternal = async (
 export const processTurn = async (
     history: { role: string; content: string }[],
     currentCaseFile: CaseFile,
-    userMessage: string
+    userMessage: string,
+    userMessageId: string | null = null
+): Promise<IntakeTurnResponse & { latencyMetrics?: LatencyMetrics }> => ({
+    ...(await runResponderTurn(history, currentCaseFile, userMessage, userMessageId)),
+    base_version: currentCaseFile.version
+});
+
+const runResponderTurn = async (
+    history: { role: string; content: string }[],
+    currentCaseFile: CaseFile,
+    userMessage: string,
+    userMessageId: string | null
 ): Promise<IntakeTurnResponse & { latencyMetrics?: LatencyMetrics }> => {
 
     const startTotal = performance.now();
@@ -146,11 +260,22 @@ export const processTurn = async (
     let apiCallTime = 0;
     let parseTime = 0;
 
+    // -------------------------------------------------------------------------
+    // 0. PENDING PHONE VERIFICATION (symbolic, no LLM call)
+    // -------------------------------------------------------------------------
+    const verificationTurn = await resolveVerificationReply(currentCaseFile, userMessage);
+    if (verificationTurn) return verificationTurn;
+
+    // Pending referral consent ("May we send them your details?")
+    const consentTurn = resolveReferralConsentReply(currentCaseFile, userMessage);
+    if (consentTurn) return consentTurn;
+
     // -------------------------------------------------------------------------
     // 1. GENERATE SCOPED SOP (NEXT 3 QUESTIONS ONLY)
     // -------------------------------------------------------------------------
     const promptPrepStart = performance.now();
 
+    const caseType = getActiveCaseType(currentCaseFile);
     const nextSlots = getNextNMissingSlots(currentCaseFile, 3);
 
     // Build scoped checklist for only the next 3 questions
@@ -160,16 +285,26 @@ export const processTurn = async (
         ).join('\n')
         : 'ALL STEPS COMPLETE - Thank user and summarize case.';
 
+    // Thinker clarification: asked at the end of this turn (pending) or answered by this message (asked)
+    const clarification = getOpenClarification(currentCaseFile);
+    const answeredClarification = clarification?.status === 'asked' ? clarification : null;
+
+    // "Actually, it was the 12th": answered fields become targetable this turn
+    // (only the fields in question when the message answers a clarification)
+    const correctableFields = detectCorrectionIntent(userMessage)
+        ? getCorrectableFields(currentCaseFile, nextSlots.map(s => s.id))
+        : answeredClarification ? getClarificationFields(currentCaseFile, answeredClarification, nextSlots.map(s => s.id)) : [];
+    const correctionSection = (correctableFields.length > 0
+        ? `\nPreviously Answered (set ONLY if the user corrects it in this message, otherwise null; the system acknowledges corrections, do not mention them in "response_text"):\n${getCorrectionConstraints(currentCaseFile, correctableFields)}`
+        : '') + (answeredClarification ? getClarificationContext(currentCaseFile, answeredClarification) : '');
+
     // 2. CONCISE SYSTEM PROMPT (Hybrid: Flattened Data + LLM Dialog)
-    const constraints = nextSlots.map(s => {
-        if (s.id === 'contact.full_name') return ` - ${s.id}: Must be 2+ words (First + Last Name).`;
-        if (s.id === 'incident.location_jurisdiction') return ` - ${s.id}: Must include City AND State/Region.`;
-        return ` - ${s.id}`;
-    }).join('\n');
+    const constraints = nextSlots.map(s => getConstraintForSlot(s.id, caseType.id)).join('\n');
 
     const systemInstruction = `Extract data into flat JSON keys.
+Today: ${toLocalIsoDate()}
 Allowed Keys & Constraints:
-${constraints}
+${constraints}${correctionSection}
 
 You MUST also include a "response_text" key.
 CRITICAL RULES:
@@ -193,13 +328,18 @@ CRITICAL RULES:
    - Set value to \`null\`.
    - Ask for correction in "response_text".
 
-5. Minified JSON only.`;
+5. **SOURCE QUOTES**: For every non-null key, add {"field": key, "quote": the user's exact words} to "source_quotes". Copy the words verbatim, do not paraphrase.
+
+6. **CONFIDENCE**: For every non-null key, add {"field": key, "confidence": 0-1} to "field_confidence". 1 = stated clearly (or confirmed); below 0.7 = hedged or guessed (e.g. "I think it was maybe Tuesday").
+
+7. Minified JSON only.`;
 
     const fullPrompt = `System: ${systemInstruction}\n\nUser: ${userMessage}`;
 
     // Log input
     log('responder', 'input', `Extracting from: "${userMessage}"`, {
         allowedKeys: nextSlots.map(s => s.id),
+        correctableKeys: correctableFields,
         userMessage
     });
 
@@ -207,45 +347,23 @@ CRITICAL RULES:
 
     // 3. DYNAMIC FLAT SCHEMA
     const requestedFieldIds = nextSlots.map(s => s.id);
-    const responseSchema = generateScopedSchema(requestedFieldIds);
+    const responseSchema = generateScopedSchema([...requestedFieldIds, ...correctableFields], caseType);
 
     try {
         const RECENT_HISTORY_LIMIT = 6; // Shorten history for speed
         const recentHistory = history.slice(-RECENT_HISTORY_LIMIT);
 
-        const apiHistory = recentHistory.length > 0
-            ? recentHistory.map(m => ({
-                role: m.role === 'user' ? 'user' : 'model',
-                parts: [{ text: m.content }]
-            })).filter((_, i) => i !== 0 || recentHistory[0].role !== 'model')
-            : [];
+        const apiHistory: LLMMessage[] = recentHistory.map(m => ({
+            role: m.role === 'user' ? 'user' : 'assistant',
+            content: m.content
+        }));
 
         const apiCallStart = performance.now();
 
-        let llmResponse: LLMResponse;
         const provider = currentLLMConfig.provider;
         const modelName = currentLLMConfig.modelName || DEFAULT_MODELS[provider];
 
-        // =====================================================================
-        // PROVIDER-SPECIFIC API CALLS
-        // =====================================================================
-        if (provider === 'internal') {
-            llmResponse = await callGeminiInternal(
-                systemInstruction,
-                userMessage,
-                apiHistory,
-                responseSchema,
-                modelName
-            );
-        } else if (provider === 'openai') {
-            llmResponse = await callOpenAI(userMessage, systemInstruction, currentLLMConfig, responseSchema);
-        } else if (provider === 'claude') {
-            llmResponse = await callClaude(userMessage, systemInstruction, currentLLMConfig);
-        } else if (provider === 'local') {
-            llmResponse = await callOllama(userMessage, systemInstruction, currentLLMConfig);
-        } else {
-            throw new Error(`Unknown provider: ${provider}`);
-        }
+        const llmResponse = await callResponderModel(systemInstruction, userMessage, apiHistory, responseSchema);
 
         apiCallTime = performance.now() - apiCallStart;
 
@@ -271,13 +389,41 @@ CRITICAL RULES:
         // Separate response_text from data fields
         const response_text = flatData.response_text || "I'm sorry, I didn't catch that. Could you please repeat?";
         delete flatData.response_text; // Remove from data so it doesn't try to map to vectors
+        const sourceQuotes = Array.isArray(flatData.source_quotes) ? flatData.source_quotes : [];
+        const fieldConfidence = flatData.field_confidence;
+        delete flatData.source_quotes;
+        delete flatData.field_confidence;
 
         // MAP FLAT DATA -> NESTED CaseFile structure
         const nestedExtraction: Partial<CaseFile> = {};
-        Object.entries(flatData).forEach(([slotId, value]) => {
+        const validationFailures: { slotId: string; result: FieldValidationResult }[] = [];
+        const listValues: Record<string, any[]> = {};
+        const closedLists: string[] = [];
+        const acceptedFields: string[] = [];
+        const corrections: { field: string; value: any }[] = [];
+        Object.entries(flatData).forEach(([slotId, rawValue]) => {
+            // CORRECTIONS: an answered field only counts when the client changed it
+            const isCorrectable = correctableFields.includes(slotId);
+            if (isCorrectable && !isCorrection(currentCaseFile, slotId, rawValue)) return;
+
+            // LIST STEPS: { items (new only), no_more } -> full merged list
+            let value = rawValue;
+            const isListAnswer = !!getSopStep(slotId, caseType.id)?.repeat && !!rawValue && typeof rawValue === 'object' && !Array.isArray(rawValue);
+            if (isListAnswer) {
+                const answer = mergeListAnswer(currentCaseFile, slotId, rawValue);
+                value = answer.items;
+                listValues[slotId] = answer.items;
+                if (answer.closed) closedLists.push(slotId);
+            }
+
             // SYMBOLIC VALIDATION LAYER (Hard Enforcement)
-            if (!validateField(slotId, value)) {
-                log('responder', 'output', `[VALIDATION REJECT] ${slotId} constraint failed`, { value });
+            const validation = checkField(slotId, value, caseType.id);
+            if (!validation.valid) {
+                // Null = not answered yet (the LLM already asks for it); anything else was refused
+                if (value !== null && value !== undefined) {
+                    log('responder', 'output', `[VALIDATION REJECT] ${slotId}: ${validation.code}${validation.member ? ` (${validation.member})` : ''}`, { value });
+                    validationFailures.push({ slotId, result: validation });
+                }
                 return; // Skip this field (effectively deleting it from extraction)
             }
 
@@ -287,16 +433,34 @@ CRITICAL RULES:
                     (nestedExtraction as any)[vector] = {};
                 }
                 (nestedExtraction as any)[vector][field] = value;
+                acceptedFields.push(slotId);
+                if (isCorrectable) {
+                    log('responder', 'output', `[CORRECTION] ${slotId}`, { from: getFieldValue(currentCaseFile, slotId), to: value });
+                    corrections.push({ field: slotId, value });
+                }
             }
         });
+        if (answeredClarification) {
+            log('responder', 'output', `[CLARIFY] Answered: ${answeredClarification.prompt}`, { corrections });
+            Object.assign(nestedExtraction, resolveClarification(currentCaseFile, answeredClarification.id));
+        }
+        if (closedLists.length > 0) {
+            nestedExtraction.closed_lists = [...(currentCaseFile.closed_lists || []), ...closedLists.filter(id => !isListClosed(currentCaseFile, id))];
+        }
 
-        // UPDATE TEMPORARY CASE FILE (for conflict check only now)
-        const updatedCaseFile = { ...currentCaseFile };
-        Object.entries(nestedExtraction).forEach(([vector, fields]) => {
-            if (fields && typeof fields === 'object') {
-                (updatedCaseFile as any)[vector] = { ...(updatedCaseFile as any)[vector], ...(fields as any) };
-            }
-        });
+        // How sure the model is of each accepted value (below the threshold -> read back next)
+        if (acceptedFields.length > 0) {
+            nestedExtraction.field_confidence = readFieldConfidence(fieldConfidence, acceptedFields);
+        }
+
+        // Which words of this message produced each accepted value
+        const provenance = buildProvenance(
+            currentCaseFile,
+            nestedExtraction,
+            { model_role: 'responder', provider, model_name: modelName, message_id: userMessageId },
+            sourceQuotes,
+            [{ id: userMessageId ?? undefined, role: 'user', content: userMessage }]
+        );
 
         // NO LOCAL DIALOG GENERATION - We use the LLM's response_text directly
         // UNLESS: All requested fields were successfully extracted. In that case, we append the Template Question.
@@ -308,58 +472,105 @@ CRITICAL RULES:
             return (nestedExtraction as any)[v]?.[f] !== undefined;
         });
 
-        // 2. Conflict check remains symbolic
-        const extractedConflictParty = flatData["admin.conflict_party"];
-        if (extractedConflictParty) {
-            const isConflict = checkConflictInDb(extractedConflictParty);
-            if (isConflict) {
-                nestedExtraction.status = 'REJECTED';
-                (nestedExtraction as any).admin = { ...(nestedExtraction as any).admin, conflict_party: extractedConflictParty };
-                return {
-                    extracted_data: nestedExtraction,
-                    response_text: `I apologize, but we already represent ${extractedConflictParty}. Ethically, we cannot proceed.`,
-                    next_system_action: 'REJECTED_GENERIC'
-                };
-            }
+        // Project the extraction onto the case file (SOL check + question generation)
+        let projectedCaseFile = mergeCaseFilePatch(currentCaseFile, nestedExtraction);
+
+        // 2. Store the normalized jurisdiction next to the raw text
+        const jurisdictionPatch = applyJurisdictionNormalization(projectedCaseFile);
+        if (jurisdictionPatch.incident) {
+            (nestedExtraction as any).incident = {
+                ...(nestedExtraction as any).incident,
+                location_normalized: jurisdictionPatch.incident.location_normalized
+            };
+            projectedCaseFile = mergeCaseFilePatch(projectedCaseFile, jurisdictionPatch);
         }
 
-        // 3. Hybrid Response Logic
-        let finalResponseText = response_text;
+        // 3. Cases we must decline (conflict of interest, already represented, outside our states) go to a partner firm
+        const referralTrigger = isCaseOpen(projectedCaseFile) ? getReferralTrigger(projectedCaseFile) : null;
+        if (referralTrigger) {
+            const declinePatch = declineCase(projectedCaseFile, referralTrigger.reason, 'responder', referralTrigger.detail);
+            Object.assign(nestedExtraction, declinePatch);
+            log('responder', 'output', `[REFERRAL] ${declinePatch.status}: ${declinePatch.rejection_reason}`, declinePatch.referral);
+            return {
+                extracted_data: nestedExtraction,
+                response_text: getDeclineMessage(mergeCaseFilePatch(projectedCaseFile, declinePatch), referralTrigger.reason),
+                next_system_action: referralTrigger.reason === 'prior_representation' ? 'REJECT_PRIOR_REP' : 'REJECTED_GENERIC',
+                provenance
+            };
+        }
+
+        // 4. Statute of limitations is symbolic too (recomputed every turn)
+        const solPatch = applyStatuteOfLimitations(projectedCaseFile);
+        Object.assign(nestedExtraction, solPatch);
+        if (solPatch.sol && solPatch.status) {
+            log('responder', 'output', `[SOL] ${solPatch.status}: ${solPatch.rejection_reason}`, solPatch.sol);
+            return {
+                extracted_data: nestedExtraction,
+                response_text: getSolClosingMessage(solPatch.sol, solPatch.status),
+                next_system_action: 'REJECTED_GENERIC',
+                provenance
+            };
+        }
+
+        // 5. Hybrid Response Logic
+        // A refused value gets a precise re-ask (e.g. "Was it Springfield, Illinois or Missouri?")
+        // instead of the LLM's generic reply, which may wrongly thank the user.
+        const reask = validationFailures.find(f => f.result.message)?.result.message;
+        let finalResponseText = reask ?? response_text;
 
         if (allRequestedFieldsFilled) {
             // "Wait Text" is already in finalResponseText (from LLM).
             // We need to calculate the TRUE next step and append the template question.
 
-            // Create a temp object to check next state purely for question generation
-            const projection = {
-                ...currentCaseFile,
-                ...(Object.keys(nestedExtraction).length ? nestedExtraction : {})
-            };
-
-            // Merge deep structs simpler for projection (already done above in 'updatedCaseFile' essentially)
-            // Actually 'updatedCaseFile' above was only a shallow copy + patch. Let's make sure it's valid.
-            const projectedCaseFile = { ...currentCaseFile };
-            Object.entries(nestedExtraction).forEach(([vector, fields]) => {
-                if (fields && typeof fields === 'object') {
-                    (projectedCaseFile as any)[vector] = { ...(projectedCaseFile as any)[vector], ...(fields as any) };
-                }
-            });
-
             // What is the NEXT missing slot after this batch?
-            const nextSlot = getNextMissingSlot(projectedCaseFile as CaseFile);
+            const nextSlot = getNextMissingSlot(projectedCaseFile);
 
             if (nextSlot && nextSlot !== "COMPLETE" && nextSlot !== "REJECT_PRIOR_REP" && nextSlot !== "REJECTED_GENERIC") {
-                const nextQuestion = getTemplateQuestionForSlot(nextSlot);
+                const nextQuestion = getTemplateQuestionForSlot(nextSlot, caseType.id, projectedCaseFile);
                 finalResponseText = `${response_text} ${nextQuestion}`;
             }
         }
 
+        // A pending Thinker clarification is asked instead of the next question (not over a re-ask or a code prompt)
+        if (clarification?.status === 'pending' && !reask && !needsPhoneVerification(projectedCaseFile)) {
+            finalResponseText = allRequestedFieldsFilled ? `${response_text} ${clarification.prompt}` : clarification.prompt;
+            Object.assign(nestedExtraction, markClarificationAsked(currentCaseFile, clarification.id));
+            log('responder', 'output', `[CLARIFY] Asked: ${clarification.prompt}`, { fields: clarification.fields });
+        }
+
+        // Corrections are acknowledged explicitly ahead of whatever comes next
+        if (corrections.length > 0) {
+            finalResponseText = `${getCorrectionAcknowledgement(currentCaseFile, corrections)} ${finalResponseText}`;
+        }
+
+        // 6. Status lifecycle (QUALIFICATION -> INTAKE -> CLOSED) follows the data
+        Object.assign(nestedExtraction, advanceLifecycle(mergeCaseFilePatch(projectedCaseFile, solPatch), 'responder'));
+
+        // 7. New phone number -> send a one-time code before moving on
+        if (needsPhoneVerification(projectedCaseFile)) {
+            try {
+                const verification = await startPhoneVerification(projectedCaseFile.contact.phone_number!);
+                nestedExtraction.contact_verification = verification;
+                // The code prompt takes the place of the next question; acknowledgements and re-asks stay
+                // (a pending clarification already waits for the turn after the code)
+                finalResponseText = [
+                    corrections.length > 0 ? getCorrectionAcknowledgement(currentCaseFile, corrections) : null,
+                    reask ?? 'Thank you.',
+                    getVerificationPrompt(verification)
+                ].filter(Boolean).join(' ');
+                log('responder', 'output', `[VERIFY] Code sent to ${verification.destination}`);
+            } catch (error: any) {
+                log('responder', 'output', `[VERIFY] Could not send code: ${error.message || 'Unknown error'}`);
+            }
+        }
+
         parseTime = performance.now() - parseStart;
         const totalTime = performance.now() - startTotal;
 
         return {
             extracted_data: nestedExtraction,
             response_text: finalResponseText,
+            provenance,
             latencyMetrics: {
                 promptPrep: Math.round(promptPrepTime),
                 apiCall: Math.round(apiCallTime),
@@ -402,168 +613,95 @@ CRITICAL RULES:
 };
 
 // ============================================================================
-// THINKER (SLOW MODEL) - Always uses Gemini internal API
-// ============================================================================
-// ============================================================================
-// THINKER (SLOW MODEL) - Always uses Gemini internal API with REASONING
+// THINKER (SLOW MODEL) - Thinker-configured provider with REASONING
 // ============================================================================
 // Responsible for: Validating entire case file, correcting data, flagging issues
 export const auditCaseFile = async (
     currentCaseFile: CaseFile,
-    history: { role: string; content: string }[]
+    history: { role: string; content: string; id?: string }[]
 ): Promise<AuditResponse> => {
 
     const startTotal = performance.now();
     const today = new Date();
+    const caseType = getActiveCaseType(currentCaseFile);
 
     // Log input
     log('thinker', 'input', 'Starting full case validation', {
         caseId: currentCaseFile.case_id,
+        caseType: caseType.id,
         status: currentCaseFile.status,
         filledFields: Object.keys(currentCaseFile).length
     });
 
+    const reviewFeedback = getReviewFeedback(currentCaseFile);
+    const clarificationFeedback = getClarificationFeedback(currentCaseFile);
+
     const systemInstruction = `
       You are a Senior Legal Data Auditor (Thinker). You validate the ENTIRE case file against the chat history.
-      Current Date: ${today.toISOString().split('T')[0]}
+      Current Date: ${toLocalIsoDate(today)}
+      Case Type: ${caseType.label}
       
       ### PRIMARY OBJECTIVES
       1. **BACKGROUND EXTRACTION**: The Responder only looks at the next 3 questions. scan the CHAT HISTORY for ANY information that belongs in the Case File but is currently null. If found, ADD IT to 'corrected_data'.
       2. **VALIDATE & CORRECT**: Fix dates (relative -> YYYY-MM-DD) and logical inconsistencies.
       3. **STRICT ENUM ENFORCEMENT**: 
          - checking 'fault_admission.status' (Yes/No/Unknown). If user words are vague (e.g. "I think so", "maybe"), set it to NULL (do not guess).
-         - checking 'claimant_role' (Driver/Passenger/Pedestrian).
          - If an enum is currently filled but contradicts history, CORRECT IT.
       4. **STRICT FIELD COMPLETENESS**:
          - **contact.full_name**: MUST contain at least First and Last name. If only one name provided (e.g. "Nachiket" or "Smith"), set it to NULL.
+         - **contact.phone_number**: MUST be E.164 (e.g. +15551234567). Convert 10-digit US numbers by prefixing +1; otherwise set it to NULL.
          - **incident.location_jurisdiction**: MUST contain City AND State. If subjective (e.g. "around here", "down the street"), set it to NULL.
       5. **STRUCT VALIDATION**:
          - If 'injury_details.has_injury' is true but 'description' is missing -> Set 'has_injury' to NULL (force re-ask).
          - If 'fault_admission.status' is Yes but 'statement' is missing -> Set 'status' to NULL (force re-ask).
+         - MEDICAL: fill 'medical.*' ONLY if 'damages.medical_treatment' is true. Never invent bills or amounts; bill amounts are USD numbers. 'medical.last_treatment_date' is set only when 'treatment_ongoing' is false and must not be before 'first_treatment_date' (otherwise list it in invalidated_fields). Provider 'type' must be one of Hospital, Emergency Room, Urgent Care, Primary Care, Chiropractor, Physical Therapy, Specialist, Other.
+         - LISTS ('admin.adverse_parties', 'medical.providers', 'medical.bills', 'liability.witnesses', 'incident.other_vehicles'): a corrected list REPLACES the current one, so return every entry. Never drop an entry the user gave.
+      6. **${caseType.label.toUpperCase()} RULES**:
+${caseType.auditRules.map(rule => `         - ${rule}`).join('\n')}
+      7. **LOCKED FIELDS** (set by intake staff, NEVER change or invalidate): ${(currentCaseFile.locked_fields || []).join(', ') || 'none'}
+      8. **REVIEWED CORRECTIONS** (already decided or waiting for intake staff, do NOT propose these values again):
+${reviewFeedback.map(line => `         - ${line}`).join('\n') || '         - none'}
+      9. **CLARIFYING QUESTIONS ALREADY RAISED** (do NOT ask these again):
+${clarificationFeedback.map(line => `         - ${line}`).join('\n') || '         - none'}
       
       ### ACTIONABLE OUTPUT
       - **corrected_data**: A Partial<CaseFile> containing specific vector updates.
-        - To INVALIDATE a field (force re-ask), set it to null explicitly.
-        - To FILL a field missed by Responder, provide the value.
+        - To FILL a field missed by Responder, provide the value. Omit fields you do not change (a null counts as unchanged).
+      - **invalidated_fields**: Dot paths of fields to INVALIDATE (cleared and asked again), e.g. ["incident.accident_date"]. Empty when none.
       - **audit_reasoning**: Brief explanation of your logic.
+      - **verification_prompt**: When the client contradicted themselves (e.g. the accident was in Ohio earlier, Indiana later) and you cannot tell which is right, ONE short question to ask the client, e.g. "You mentioned the accident was in Ohio earlier but now said Indiana. Which is correct?". Otherwise null. Never for a field that is simply missing.
+      - **flagged_issue**: Internal note on the contradiction behind verification_prompt, otherwise null.
+      - **validation_errors**: The fields verification_prompt is about: {"field": dot path, "issue": what contradicts, "suggestion": likely value or null}.
+      - **field_confidence**: For every field you fill or correct, and any current value you doubt, {"field": dot path, "confidence": 0-1}. Below 0.7 when the client hedged or guessed ("I think", "maybe", "around"); 1 when stated clearly or confirmed.
+      - **source_quotes**: For every field you fill or correct, {"field": dot path (e.g. "incident.accident_date"), "quote": the client's exact words from the chat history}. Copy the words verbatim, do not paraphrase.
       
-      ### FULL CASE FILE
-      ${JSON.stringify(currentCaseFile, null, 2)}
+      ### FULL CASE FILE (provenance, correction and clarification logs omitted)
+      ${JSON.stringify({ ...currentCaseFile, provenance: undefined, audit_corrections: undefined, clarifications: undefined }, null, 2)}
     `;
 
     // Filter relevant history key for context
     const chatContext = history.map(h => `${h.role.toUpperCase()}: ${h.content}`).join('\n');
-    const fullPrompt = `System: ${systemInstruction}\n\nChat History (Most Recent First):\n${chatContext}`;
+    const historyPrompt = `Chat History (Most Recent First):\n${chatContext}`;
+    const fullPrompt = `System: ${systemInstruction}\n\n${historyPrompt}`;
 
-    // Audit Schema matches Type.ts structures
-    const responseSchema = {
-        type: Type.OBJECT,
-        properties: {
-            audit_reasoning: { type: Type.STRING },
-            corrected_data: {
-                type: Type.OBJECT,
-                properties: {
-                    contact: {
-                        type: Type.OBJECT,
-                        properties: {
-                            full_name: { type: Type.STRING, nullable: true },
-                            email: { type: Type.STRING, nullable: true },
-                        },
-                        nullable: true
-                    },
-                    incident: {
-                        type: Type.OBJECT,
-                        properties: {
-                            accident_date: { type: Type.STRING, nullable: true },
-                            accident_time: { type: Type.STRING, nullable: true },
-                            location_jurisdiction: { type: Type.STRING, nullable: true },
-                            police_report_filed: { type: Type.BOOLEAN, nullable: true },
-                            weather_conditions: { type: Type.STRING, nullable: true },
-                            vehicle_description: { type: Type.STRING, nullable: true },
-                        },
-                        nullable: true
-                    },
-                    liability: {
-                        type: Type.OBJECT,
-                        properties: {
-                            fault_admission: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    status: { type: Type.STRING, enum: ["Yes", "No", "Unknown"], nullable: true },
-                                    statement: { type: Type.STRING, nullable: true }
-                                },
-                                nullable: true
-                            },
-                            claimant_role: { type: Type.STRING, enum: ["Driver", "Passenger", "Pedestrian"], nullable: true },
-                            citation_issued: { type: Type.BOOLEAN, nullable: true },
-                            witness_presence: { type: Type.BOOLEAN, nullable: true }
-                        },
-                        nullable: true
-                    },
-                    damages: {
-                        type: Type.OBJECT,
-                        properties: {
-                            injury_details: {
-                                type: Type.OBJECT,
-                                properties: { has_injury: { type: Type.BOOLEAN, nullable: true }, description: { type: Type.STRING, nullable: true } },
-                                nullable: true
-                            },
-                            medical_treatment: { type: Type.BOOLEAN, nullable: true },
-                            hospitalization_details: {
-                                type: Type.OBJECT,
-                                properties: { was_hospitalized: { type: Type.BOOLEAN, nullable: true }, duration: { type: Type.STRING, nullable: true } },
-                                nullable: true
-                            },
-                            lost_wages_details: {
-                                type: Type.OBJECT,
-                                properties: { has_lost_wages: { type: Type.BOOLEAN, nullable: true }, amount: { type: Type.NUMBER, nullable: true } },
-                                nullable: true
-                            }
-                        },
-                        nullable: true
-                    },
-                    admin: {
-                        type: Type.OBJECT,
-                        properties: {
-                            insurance_status: { type: Type.BOOLEAN, nullable: true },
-                            prior_representation: { type: Type.BOOLEAN, nullable: true },
-                            conflict_party: { type: Type.STRING, nullable: true },
-                        },
-                        nullable: true
-                    },
-                },
-                nullable: true
-            },
-            // We keep these for schema compatibility but will likely ignore in UI
-            flagged_issue: { type: Type.STRING, nullable: true },
-            verification_prompt: { type: Type.STRING, nullable: true },
-        }
-    };
+    // Audit Schema is generated from the active case type (only the fields its SOP collects)
+    const responseSchema = generateAuditSchema(caseType);
+
+    const provider = currentThinkerConfig.provider;
+    const modelName = currentThinkerConfig.modelName || DEFAULT_THINKER_MODELS[provider];
 
     try {
+        if (!isProviderConfigured(currentThinkerConfig)) {
+            throw new Error(`Thinker provider ${provider} is not configured (missing API key)`);
+        }
+
         const apiCallStart = performance.now();
-        const modelName = 'gemini-2.5-flash'; // Fallback to stable highly capable model
-
-        const response = await ai.models.generateContent({
-            model: modelName,
-            contents: [
-                { role: 'user', parts: [{ text: fullPrompt }] }
-            ],
-            config: {
-                systemInstruction, // Valid for 2.0 Flash
-                responseMimeType: "application/json",
-                responseSchema,
-                temperature: 0.1,
-            }
-        });
+        const llmResponse = await callThinkerModel(systemInstruction, historyPrompt, responseSchema);
 
         const apiCallTime = performance.now() - apiCallStart;
-        const rawOutput = response.text || "{}";
-
-        // Get usage metadata
-        const usageMetadata = (response as any).usageMetadata || {};
-        const inputTokens = usageMetadata.promptTokenCount || estimateTokenCount(fullPrompt);
-        const outputTokens = usageMetadata.candidatesTokenCount || estimateTokenCount(rawOutput);
+        const rawOutput = llmResponse.text || "{}";
+        const inputTokens = llmResponse.inputTokens || estimateTokenCount(fullPrompt);
+        const outputTokens = llmResponse.outputTokens || estimateTokenCount(rawOutput);
 
         // =====================================================================
         // COMPREHENSIVE API CALL LOGGING FOR THINKER
@@ -571,7 +709,7 @@ export const auditCaseFile = async (
         const apiLog: ApiCallLog = {
             timestamp: Date.now(),
             model: 'thinker',
-            provider: 'internal',
+            provider,
             modelName: modelName,
             inputPrompt: fullPrompt,
             inputTokens: inputTokens,
@@ -583,7 +721,34 @@ export const auditCaseFile = async (
 
         const cleanText = cleanJsonResponse(rawOutput);
         const parsed = JSON.parse(cleanText) as AuditResponse;
-        if (!parsed.corrected_data) parsed.corrected_data = {};
+        // Providers without schema enforcement do not guarantee the shape
+        if (!parsed.corrected_data || typeof parsed.corrected_data !== 'object' || Array.isArray(parsed.corrected_data)) parsed.corrected_data = {};
+        if (typeof parsed.audit_reasoning !== 'string') parsed.audit_reasoning = '';
+        // Invalidations have their own list (strict decoders cannot tell an explicit null from an unchanged field)
+        applyInvalidatedFields(parsed, caseType.sop.steps.map(step => step.id));
+        parsed.provenance = buildProvenance(
+            currentCaseFile,
+            parsed.corrected_data,
+            { model_role: 'thinker', provider, model_name: modelName, message_id: null },
+            parsed.source_quotes,
+            history
+        );
+
+        // Confidence of the fields it changed, plus any current value it re-scored
+        const confidencePatch = readFieldConfidence(
+            parsed.field_confidence,
+            parsed.provenance.map(entry => entry.field),
+            caseType.sop.steps.filter(step => !step.repeat).map(step => step.id)
+        );
+        if (Object.keys(confidencePatch).length > 0) {
+            parsed.corrected_data.field_confidence = confidencePatch;
+        }
+        parsed.base_version = currentCaseFile.version;
+
+        // Fields the verification prompt is about, with the values it questions
+        parsed.validation_errors = (Array.isArray(parsed.validation_errors) ? parsed.validation_errors : [])
+            .filter(error => error && typeof error.field === 'string')
+            .map(error => ({ ...error, currentValue: getFieldValue(currentCaseFile, error.field) }));
 
         // Log output
         log('thinker', 'output', `Validation complete: ${Object.keys(parsed.corrected_data).length} corrections (${outputTokens} tokens, ${Math.round(apiCallTime)}ms)`, {
@@ -604,8 +769,8 @@ export const auditCaseFile = async (
         addApiCallLog({
             timestamp: Date.now(),
             model: 'thinker',
-            provider: 'internal',
-            modelName: 'gemini-2.5-flash',
+            provider,
+            modelName,
             inputPrompt: fullPrompt,
             inputTokens: estimateTokenCount(fullPrompt),
             outputString: '',
@@ -619,6 +784,7 @@ export const auditCaseFile = async (
             corrected_data: {},
             flagged_issue: null,
             verification_prompt: null,
+            base_version: currentCaseFile.version
         };
     }
 };
@@ -0,0 +1,165 @@
+import { CaseFile, NormalizedLocation } from '../types';
+import { US_STATES } from '../constants';
+import { GAZETTEER, GazetteerEntry } from './gazetteer';
+
+/**
+ * ------------------------------------------------------------------
+ * JURISDICTION PARSER (Symbolic Part)
+ * ------------------------------------------------------------------
+ * Resolves the free-text `incident.location_jurisdiction` into
+ * { city, county, state, country } without a network call:
+ * 1. Splits off the state (trailing part after a comma, or a trailing state name/code).
+ * 2. Looks the remaining text up in the offline gazetteer.
+ * 3. A known city without a state resolves only if the name is unique;
+ *    "Springfield" alone is ambiguous and needs a follow-up question.
+ */
+
+export type JurisdictionParseResult =
+  | { status: 'resolved'; location: NormalizedLocation }
+  | { status: 'ambiguous'; city: string; candidates: string[] }   // candidate USPS codes
+  | { status: 'incomplete'; reason: 'missing_city' | 'missing_state' | 'vague' | 'outside_us'; city?: string; state?: string };
+
+const VAGUE_PATTERN = /\b(around here|near here|over there|down the (street|road)|my (town|city|neighborhood)|nearby|somewhere|local|not sure|don'?t know)\b/i;
+const FOREIGN_PATTERN = /\b(canada|mexico|england|united kingdom|uk|ireland|australia|india|germany|france)\b/i;
+const COUNTRY_SUFFIX = /[,\s]*\b(usa|u\.s\.a\.|u\.s\.|us|united states( of america)?)\s*$/i;
+const LEADING_FILLER = /^(it was |it happened |this was )?((in|at|near|outside|downtown|the city of|city of)\s+)+/i;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const titleCase = (text: string): string =>
+  text.toLowerCase().replace(/\b[a-z]/g, char => char.toUpperCase());
+
+// State names longest first, so "West Virginia" wins over "Virginia"
+const STATE_NAMES = Object.entries(US_STATES).sort(([, a], [, b]) => b.length - a.length);
+
+/**
+ * Matches a whole string against a state name or code. Codes are
+ * case-insensitive here because the string is already isolated.
+ */
+const matchState = (text: string): string | null => {
+  const normalized = text.trim().replace(/\./g, '');
+  if (!normalized) return null;
+  const upper = normalized.toUpperCase();
+  if (upper in US_STATES) return upper;
+  const byName = STATE_NAMES.find(([, name]) => name.toLowerCase() === normalized.toLowerCase());
+  return byName ? byName[0] : null;
+};
+
+/**
+ * Splits "City, ST" / "City State" into its city and state parts.
+ * Without a comma, trailing codes must be uppercase to avoid reading "in", "me" or "or" as states.
+ */
+const splitState = (text: string): { cityPart: string; state: string | null } => {
+  const parts = text.split(',').map(p => p.trim()).filter(Boolean);
+  if (parts.length >= 2) {
+    const state = matchState(parts[parts.length - 1]);
+    if (state) return { cityPart: parts.slice(0, -1).join(', '), state };
+  }
+
+  for (const [code, name] of STATE_NAMES) {
+    const byName = new RegExp(`^(.*?)[\\s,]*\\b${escapeRegExp(name)}$`, 'i').exec(text);
+    if (byName) return { cityPart: byName[1].trim(), state: code };
+  }
+  const byCode = /^(.*?)[\s,]+([A-Z]{2}|[A-Z]\.[A-Z]\.)$/.exec(text);
+  if (byCode) {
+    const state = matchState(byCode[2]);
+    if (state) return { cityPart: byCode[1].trim(), state };
+  }
+  return { cityPart: parts.join(', '), state: null };
+};
+
+const entryNames = (entry: GazetteerEntry): string[] => [entry.city.toLowerCase(), ...(entry.aliases || [])];
+
+/**
+ * Gazetteer entries for a city text: exact name/alias match first, otherwise
+ * the longest known name contained in the text ("downtown Austin near 5th").
+ */
+const lookupCity = (cityPart: string): GazetteerEntry[] => {
+  const needle = cityPart.toLowerCase().replace(/^st\.?\s/, 'saint ');
+  const exact = GAZETTEER.filter(entry => entryNames(entry).includes(needle));
+  if (exact.length > 0) return exact;
+
+  let best: GazetteerEntry[] = [];
+  let bestLength = 0;
+  GAZETTEER.forEach(entry => {
+    entryNames(entry).forEach(name => {
+      if (name.length < bestLength || !new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i').test(cityPart)) return;
+      if (name.length > bestLength) best = [];
+      bestLength = name.length;
+      if (!best.includes(entry)) best.push(entry);
+    });
+  });
+  return best;
+};
+
+const toLocation = (raw: string, city: string | null, county: string | null, state: string): NormalizedLocation =>
+  ({ city, county, state, country: 'US', raw });
+
+export const parseJurisdiction = (raw: string | null | undefined): JurisdictionParseResult => {
+  const original = (raw || '').trim();
+  const text = original.replace(COUNTRY_SUFFIX, '').trim();
+  if (!text) return { status: 'incomplete', reason: 'vague' };
+  if (FOREIGN_PATTERN.test(text)) return { status: 'incomplete', reason: 'outside_us' };
+
+  const { cityPart: rawCityPart, state } = splitState(text);
+  const cityPart = rawCityPart.replace(LEADING_FILLER, '').trim();
+
+  // A county is a valid jurisdiction on its own ("Cook County, IL")
+  const isCounty = /\b(county|parish)$/i.test(cityPart);
+
+  if (state) {
+    // "New York" / "Washington": the whole text may be a city rather than a state
+    const candidates = lookupCity(cityPart || text).filter(entry => entry.state === state);
+    if (candidates.length > 0) return { status: 'resolved', location: toLocation(original, candidates[0].city, candidates[0].county, state) };
+    if (!cityPart || VAGUE_PATTERN.test(cityPart)) return { status: 'incomplete', reason: 'missing_city', state };
+    if (isCounty) return { status: 'resolved', location: toLocation(original, null, titleCase(cityPart), state) };
+    return { status: 'resolved', location: toLocation(original, titleCase(cityPart), null, state) };
+  }
+
+  if (!cityPart || VAGUE_PATTERN.test(cityPart)) return { status: 'incomplete', reason: 'vague' };
+
+  const matches = lookupCity(cityPart);
+  const states = Array.from(new Set(matches.map(entry => entry.state)));
+  if (states.length === 1) {
+    return { status: 'resolved', location: toLocation(original, matches[0].city, matches[0].county, matches[0].state) };
+  }
+  if (states.length > 1) {
+    return { status: 'ambiguous', city: matches[0].city, candidates: states };
+  }
+  return { status: 'incomplete', reason: 'missing_state', city: titleCase(cityPart) };
+};
+
+/**
+ * The question to ask when the location could not be resolved. Null once resolved.
+ */
+export const getJurisdictionFollowUp = (result: JurisdictionParseResult): string | null => {
+  if (result.status === 'resolved') return null;
+
+  if (result.status === 'ambiguous') {
+    const names = result.candidates.map(code => US_STATES[code]);
+    const list = names.length > 1 ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}` : names[0];
+    return `There is more than one ${result.city}. Was it ${result.city}, ${list}?`;
+  }
+
+  switch (result.reason) {
+    case 'missing_city': return `Which city or town in ${US_STATES[result.state!]} did it happen in?`;
+    case 'missing_state': return `Which state is ${result.city} in?`;
+    case 'outside_us': return 'We can only handle incidents that happened in the United States. In which US city and state did it happen?';
+    default: return 'Could you tell me the city and state where it happened?';
+  }
+};
+
+/**
+ * Keeps `incident.location_normalized` in step with the raw text.
+ * Returns an empty patch when nothing changed.
+ */
+export const applyJurisdictionNormalization = (caseFile: CaseFile): Partial<CaseFile> => {
+  const raw = caseFile.incident.location_jurisdiction;
+  const current = caseFile.incident.location_normalized;
+  if (current && current.raw === raw) return {};
+
+  const result = raw ? parseJurisdiction(raw) : null;
+  const location_normalized = result?.status === 'resolved' ? result.location : null;
+  if (location_normalized === null && !current) return {};
+  return { incident: { ...caseFile.incident, location_normalized } };
+};
@@ -1,14 +1,71 @@
 /**
  * LLM Provider Abstraction Layer
  * ==============================
- * Provides a unified interface for calling different LLM providers:
+ * Every provider implements one interface (LLMProviderDefinition) and registers
+ * into the provider registry; the Responder, the Thinker and the model picker
+ * all go through it:
  * - Internal (Gemini)
  * - Local (Ollama)
  * - OpenAI (user API key)
  * - Claude (user API key)
+ * - OpenAI-compatible servers (vLLM, LM Studio, llama.cpp server; base URL + optional key)
  */
 
+import { GoogleGenAI } from "@google/genai";
 import { LLMProvider, LLMConfig, DEFAULT_MODELS, ApiCallLog } from '../types';
+import { toJsonSchema, toStrictJsonSchema, stripOptionalNulls } from './schemaBuilder';
+
+// ============================================================================
+// PROVIDER INTERFACE
+// ============================================================================
+
+export interface LLMResponse {
+    text: string;
+    inputTokens: number;
+    outputTokens: number;
+    rawResponse?: any;
+}
+
+/**
+ * Earlier turn of the conversation, provider-neutral.
+ */
+export interface LLMMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+/**
+ * One generation request. Providers translate it to their own API.
+ */
+export interface LLMRequest {
+    systemInstruction: string;
+    prompt: string;                 // Current user turn
+    history?: LLMMessage[];         // Earlier turns, oldest first (the caller applies the history window)
+    responseSchema?: any;           // Gemini-style schema (see LLMProviderDefinition.structuredOutput)
+    stopSequences?: string[];
+    signal?: AbortSignal;           // Cancels the request client-side
+    temperature?: number;           // Default 0
+    maxTokens?: number;             // Output cap where the API requires one
+    reasoning?: boolean;            // Let thinking models think (Thinker); off by default for latency
+}
+
+export interface LLMProviderDefinition {
+    id: LLMProvider;
+    label: string;
+    apiKey: 'required' | 'optional' | 'none';
+    requiresBaseUrl?: boolean;      // Settings panel asks for LLMConfig.baseUrl
+    /**
+     * How a responseSchema is honored: 'schema' = enforced by the API (constrained decoding,
+     * strict JSON schema or tool input), 'json' = JSON mode only (callers describe the shape
+     * in the prompt), 'none' = prompt only.
+     */
+    structuredOutput: 'schema' | 'json' | 'none';
+    isConfigured: (config: LLMConfig) => boolean;
+    generate: (config: LLMConfig, request: LLMRequest) => Promise<LLMResponse>;
+    listModels: (config: LLMConfig) => Promise<ModelInfo[]>;
+    healthCheck: (config: LLMConfig) => Promise<{ ok: boolean; error?: string }>;
+}
+
 
 // ============================================================================
 // MODEL FETCHING FUNCTIONS
@@ -90,6 +147,32 @@ export const fetchOpenAIModels = async (apiKey: string): Promise<ModelInfo[]> =>
     }
 };
 
+/**
+ * Fetch the models an OpenAI-compatible server (vLLM, LM Studio, llama.cpp server) serves.
+ * No fallback list: the names depend on what the server loaded.
+ */
+export const fetchOpenAICompatibleModels = async (baseUrl: string, apiKey?: string): Promise<ModelInfo[]> => {
+    try {
+        const response = await fetch(`${toOpenAIBaseUrl(baseUrl)}/models`, {
+            headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
+        });
+        if (!response.ok) {
+            console.warn(`Failed to fetch models from ${baseUrl}: ${response.status} ${response.statusText}`);
+            return [];
+        }
+
+        const data = await response.json();
+        return data.data?.map((m: any) => ({
+            id: m.id,
+            name: m.id,
+            description: m.owned_by || ''
+        })) || [];
+    } catch (error) {
+        console.error(`Error fetching models from ${baseUrl}:`, error);
+        return [];
+    }
+};
+
 /**
  * Fetch available Ollama models from local instance
  */
@@ -149,28 +232,6 @@ const getDefaultOllamaModels = (): ModelInfo[] => [
     { id: 'mistral:7b', name: 'Mistral 7B', description: 'Fast and capable' },
 ];
 
-/**
- * Fetch models for any provider
- */
-export const fetchModelsForProvider = async (
-    provider: LLMProvider,
-    apiKey?: string,
-    localEndpoint?: string
-): Promise<ModelInfo[]> => {
-    switch (provider) {
-        case 'internal':
-            return fetchGeminiModels();
-        case 'openai':
-            return fetchOpenAIModels(apiKey || '');
-        case 'claude':
-            return fetchClaudeModels();
-        case 'local':
-            return fetchOllamaModels(localEndpoint);
-        default:
-            return [];
-    }
-};
-
 // ============================================================================
 // TOKEN COUNTING UTILITIES
 // ============================================================================
@@ -219,208 +280,417 @@ export const addApiCallLog = (log: ApiCallLog): void => {
 };
 
 // ============================================================================
-// PROVIDER RESPONSE TYPE
+// SHARED HELPERS
 // ============================================================================
+const OLLAMA_DEFAULT_ENDPOINT = 'http://localhost:11434';
 
-export interface LLMResponse {
-    text: string;
-    inputTokens: number;
-    outputTokens: number;
-    rawResponse?: any;
-}
+const getModelName = (config: LLMConfig): string => config.modelName || DEFAULT_MODELS[config.provider];
+
+/**
+ * "http://host:8000", "http://host:8000/" and "http://host:8000/v1" all mean the same server.
+ */
+const toOpenAIBaseUrl = (baseUrl: string): string => `${baseUrl.trim().replace(/\/+$/, '').replace(/\/v1$/, '')}/v1`;
+
+const getGeminiApiKey = (): string => process.env.GEMINI_API_KEY || process.env.API_KEY || '';
+
+// Error message from a failed JSON API response (body may not be JSON)
+const readApiError = async (response: Response): Promise<string> => {
+    try {
+        const error = await response.json();
+        return error.error?.message || error.error || response.statusText;
+    } catch {
+        return response.statusText;
+    }
+};
+
+/**
+ * History + current prompt as strictly alternating turns starting with the user,
+ * which Gemini and Claude require: a leading assistant turn (the greeting) is dropped
+ * and consecutive turns from the same side are joined.
+ */
+const toConversation = (request: LLMRequest): LLMMessage[] =>
+    [...(request.history || []), { role: 'user' as const, content: request.prompt }]
+        .reduce<LLMMessage[]>((turns, message) => {
+            const last = turns[turns.length - 1];
+            if (!last && message.role === 'assistant') return turns;
+            if (last?.role === message.role) {
+                return [...turns.slice(0, -1), { role: last.role, content: `${last.content}\n\n${message.content}` }];
+            }
+            return [...turns, { role: message.role, content: message.content }];
+        }, []);
+
+// GET that only checks the endpoint answers (health checks)
+const pingEndpoint = async (url: string, headers: Record<string, string> = {}): Promise<{ ok: boolean; error?: string }> => {
+    try {
+        const response = await fetch(url, { headers });
+        return response.ok ? { ok: true } : { ok: false, error: `${response.status} ${await readApiError(response)}` };
+    } catch (error: any) {
+        return { ok: false, error: error.message || 'Unreachable' };
+    }
+};
 
 // ============================================================================
-// OLLAMA (LOCAL) PROVIDER
+// GEMINI (INTERNAL) PROVIDER
 // ============================================================================
+const ai = new GoogleGenAI({ apiKey: getGeminiApiKey() });
+
+const geminiProvider: LLMProviderDefinition = {
+    id: 'internal',
+    label: 'Gemini',
+    apiKey: 'none', // Environment key
+    structuredOutput: 'schema',
+    isConfigured: () => !!getGeminiApiKey(),
+
+    generate: async (config, request) => {
+        const response = await ai.models.generateContent({
+            model: getModelName(config),
+            contents: toConversation(request).map(m => ({
+                role: m.role === 'user' ? 'user' : 'model',
+                parts: [{ text: m.content }]
+            })),
+            config: {
+                systemInstruction: request.systemInstruction,
+                ...(request.responseSchema ? { responseMimeType: "application/json", responseSchema: request.responseSchema } : {}),
+                temperature: request.temperature ?? 0,
+                ...(request.reasoning ? {} : { thinkingConfig: { thinkingBudget: 0 } }),
+                maxOutputTokens: request.maxTokens,
+                stopSequences: request.stopSequences,
+                abortSignal: request.signal
+            }
+        });
 
-export const callOllama = async (
-    prompt: string,
-    systemInstruction: string,
-    config: LLMConfig
-): Promise<LLMResponse> => {
-    const endpoint = config.localEndpoint || 'http://localhost:11434';
-    const model = config.modelName || DEFAULT_MODELS.local;
+        const rawOutput = response.text || "{}";
 
-    const response = await fetch(`${endpoint}/api/generate`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-            model,
-            prompt: `${systemInstruction}\n\nUser: ${prompt}`,
+        // Gemini API returns usage metadata
+        const usageMetadata = (response as any).usageMetadata || {};
+
+        return {
+            text: rawOutput,
+            inputTokens: usageMetadata.promptTokenCount || estimateTokenCount(request.systemInstruction + request.prompt),
+            outputTokens: usageMetadata.candidatesTokenCount || estimateTokenCount(rawOutput),
+            rawResponse: response
+        };
+    },
+
+    listModels: () => fetchGeminiModels(),
+    healthCheck: async () => getGeminiApiKey()
+        ? pingEndpoint(`https://generativelanguage.googleapis.com/v1beta/models?key=${getGeminiApiKey()}`)
+        : { ok: false, error: 'GEMINI_API_KEY is not set' }
+};
+
+// ============================================================================
+// OLLAMA (LOCAL) PROVIDER
+// ============================================================================
+const ollamaProvider: LLMProviderDefinition = {
+    id: 'local',
+    label: 'Local (Ollama)',
+    apiKey: 'none',
+    structuredOutput: 'schema',
+    isConfigured: () => true, // Ollama availability checked at runtime
+
+    generate: async (config, request) => {
+        const endpoint = config.localEndpoint || OLLAMA_DEFAULT_ENDPOINT;
+
+        const body: any = {
+            model: getModelName(config),
+            messages: [
+                { role: 'system', content: request.systemInstruction },
+                ...toConversation(request)
+            ],
             stream: false,
             options: {
-                temperature: 0,
+                temperature: request.temperature ?? 0,
+                stop: request.stopSequences,
+                num_predict: request.maxTokens
             }
-        })
-    });
+        };
 
-    if (!response.ok) {
-        throw new Error(`Ollama error: ${response.status} ${response.statusText}`);
-    }
+        // Structured calls: the schema as `format`, and room for the whole case file (audit)
+        if (request.responseSchema) {
+            body.format = toJsonSchema(request.responseSchema);
+            body.options.num_ctx = 8192;
+        }
 
-    const data = await response.json();
+        const response = await fetch(`${endpoint}/api/chat`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal: request.signal
+        });
 
-    return {
-        text: data.response || '',
-        inputTokens: data.prompt_eval_count || estimateTokenCount(prompt + systemInstruction),
-        outputTokens: data.eval_count || estimateTokenCount(data.response || ''),
-        rawResponse: data
-    };
+        if (!response.ok) {
+            throw new Error(`Ollama error: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        const text = data.message?.content || '';
+
+        return {
+            text,
+            inputTokens: data.prompt_eval_count || estimateTokenCount(request.prompt + request.systemInstruction),
+            outputTokens: data.eval_count || estimateTokenCount(text),
+            rawResponse: data
+        };
+    },
+
+    listModels: (config) => fetchOllamaModels(config.localEndpoint || OLLAMA_DEFAULT_ENDPOINT),
+    healthCheck: (config) => pingEndpoint(`${config.localEndpoint || OLLAMA_DEFAULT_ENDPOINT}/api/tags`)
 };
 
 // ============================================================================
 // OPENAI PROVIDER
 // ============================================================================
-
-export const callOpenAI = async (
-    prompt: string,
-    systemInstruction: string,
-    config: LLMConfig,
-    responseSchema?: any
-): Promise<LLMResponse> => {
-    if (!config.apiKey) {
-        throw new Error('OpenAI API key is required');
+// Undoes the strict-mode nulls; output that is not plain JSON (a server ignoring
+// response_format) is returned as is for the caller's cleanJsonResponse
+const stripStrictNulls = (content: string, responseSchema: any): string => {
+    try {
+        return JSON.stringify(stripOptionalNulls(JSON.parse(content), responseSchema));
+    } catch {
+        return content;
     }
+};
 
-    const model = config.modelName || DEFAULT_MODELS.openai;
-
+/**
+ * Chat completions call shared by OpenAI and OpenAI-compatible servers.
+ * An empty model name is left out (single-model servers such as llama.cpp serve their model).
+ */
+const callChatCompletions = async (
+    baseUrl: string,
+    apiKey: string | undefined,
+    model: string,
+    request: LLMRequest,
+    label: string
+): Promise<LLMResponse> => {
     const messages = [
-        { role: 'system', content: systemInstruction },
-        { role: 'user', content: prompt }
+        { role: 'system', content: request.systemInstruction },
+        ...(request.history || []),
+        { role: 'user', content: request.prompt }
     ];
 
     const body: any = {
-        model,
+        ...(model ? { model } : {}),
         messages,
-        temperature: 0,
+        temperature: request.temperature ?? 0,
+        max_tokens: request.maxTokens,
+        stop: request.stopSequences
     };
 
-    // If response schema provided, use JSON mode
-    if (responseSchema) {
-        body.response_format = { type: 'json_object' };
+    // Structured outputs: strict mode needs every key required, so optional ones come back as null
+    if (request.responseSchema) {
+        body.response_format = {
+            type: 'json_schema',
+            json_schema: { name: 'response', strict: true, schema: toStrictJsonSchema(request.responseSchema) }
+        };
     }
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${config.apiKey}`
+            ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
         },
-        body: JSON.stringify(body)
+        body: JSON.stringify(body),
+        signal: request.signal
     });
 
     if (!response.ok) {
-        const error = await response.json();
-        throw new Error(`OpenAI error: ${error.error?.message || response.statusText}`);
+        throw new Error(`${label} error: ${await readApiError(response)}`);
     }
 
     const data = await response.json();
+    const message = data.choices?.[0]?.message;
+    if (message?.refusal) {
+        throw new Error(`${label} refused: ${message.refusal}`);
+    }
+    const content = message?.content || '';
 
     return {
-        text: data.choices?.[0]?.message?.content || '',
-        inputTokens: data.usage?.prompt_tokens || 0,
-        outputTokens: data.usage?.completion_tokens || 0,
+        text: request.responseSchema ? stripStrictNulls(content, request.responseSchema) : content,
+        inputTokens: data.usage?.prompt_tokens || estimateTokenCount(request.systemInstruction + request.prompt),
+        outputTokens: data.usage?.completion_tokens || estimateTokenCount(content),
         rawResponse: data
     };
 };
 
+const openAIProvider: LLMProviderDefinition = {
+    id: 'openai',
+    label: 'OpenAI',
+    apiKey: 'required',
+    structuredOutput: 'schema',
+    isConfigured: (config) => !!config.apiKey,
+
+    generate: async (config, request) => {
+        if (!config.apiKey) {
+            throw new Error('OpenAI API key is required');
+        }
+        return callChatCompletions('https://api.openai.com/v1', config.apiKey, getModelName(config), request, 'OpenAI');
+    },
+
+    listModels: (config) => fetchOpenAIModels(config.apiKey || ''),
+    healthCheck: async (config) => config.apiKey
+        ? pingEndpoint('https://api.openai.com/v1/models', { 'Authorization': `Bearer ${config.apiKey}` })
+        : { ok: false, error: 'OpenAI API key is required' }
+};
+
 // ============================================================================
-// CLAUDE (ANTHROPIC) PROVIDER
+// OPENAI-COMPATIBLE PROVIDER (vLLM, LM Studio, llama.cpp server)
 // ============================================================================
+const openAICompatibleProvider: LLMProviderDefinition = {
+    id: 'openai_compatible',
+    label: 'OpenAI-compatible',
+    apiKey: 'optional',
+    requiresBaseUrl: true,
+    structuredOutput: 'schema',
+    isConfigured: (config) => !!config.baseUrl,
+
+    generate: async (config, request) => {
+        if (!config.baseUrl) {
+            throw new Error('OpenAI-compatible base URL is required');
+        }
+        return callChatCompletions(toOpenAIBaseUrl(config.baseUrl), config.apiKey, getModelName(config), request, 'OpenAI-compatible');
+    },
 
-export const callClaude = async (
-    prompt: string,
-    systemInstruction: string,
-    config: LLMConfig
-): Promise<LLMResponse> => {
-    if (!config.apiKey) {
-        throw new Error('Claude API key is required');
-    }
-
-    const model = config.modelName || DEFAULT_MODELS.claude;
+    listModels: async (config) => config.baseUrl ? fetchOpenAICompatibleModels(config.baseUrl, config.apiKey) : [],
+    healthCheck: async (config) => config.baseUrl
+        ? pingEndpoint(`${toOpenAIBaseUrl(config.baseUrl)}/models`, config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+        : { ok: false, error: 'OpenAI-compatible base URL is required' }
+};
 
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': config.apiKey,
-            'anthropic-version': '2023-06-01'
-        },
-        body: JSON.stringify({
-            model,
-            max_tokens: 1024,
-            system: systemInstruction,
-            messages: [
-                { role: 'user', content: prompt }
-            ]
-        })
-    });
+// ============================================================================
+// CLAUDE (ANTHROPIC) PROVIDER
+// ============================================================================
+const claudeHeaders = (apiKey: string): Record<string, string> => ({
+    'Content-Type': 'application/json',
+    'x-api-key': apiKey,
+    'anthropic-version': '2023-06-01'
+});
+
+// Structured calls force a single tool whose input schema is the response schema
+const CLAUDE_RESPONSE_TOOL = 'respond';
+
+const claudeProvider: LLMProviderDefinition = {
+    id: 'claude',
+    label: 'Claude',
+    apiKey: 'required',
+    structuredOutput: 'schema',
+    isConfigured: (config) => !!config.apiKey,
+
+    generate: async (config, request) => {
+        if (!config.apiKey) {
+            throw new Error('Claude API key is required');
+        }
 
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(`Claude error: ${error.error?.message || response.statusText}`);
-    }
+        const response = await fetch('https://api.anthropic.com/v1/messages', {
+            method: 'POST',
+            headers: claudeHeaders(config.apiKey),
+            body: JSON.stringify({
+                model: getModelName(config),
+                max_tokens: request.maxTokens ?? 1024,
+                temperature: request.temperature ?? 0,
+                system: request.systemInstruction,
+                stop_sequences: request.stopSequences,
+                messages: toConversation(request),
+                ...(request.responseSchema ? {
+                    tools: [{
+                        name: CLAUDE_RESPONSE_TOOL,
+                        description: 'Return the response. Always call this tool.',
+                        input_schema: toJsonSchema(request.responseSchema)
+                    }],
+                    tool_choice: { type: 'tool', name: CLAUDE_RESPONSE_TOOL }
+                } : {})
+            }),
+            signal: request.signal
+        });
 
-    const data = await response.json();
+        if (!response.ok) {
+            throw new Error(`Claude error: ${await readApiError(response)}`);
+        }
 
-    return {
-        text: data.content?.[0]?.text || '',
-        inputTokens: data.usage?.input_tokens || 0,
-        outputTokens: data.usage?.output_tokens || 0,
-        rawResponse: data
-    };
+        const data = await response.json();
+        const toolUse = (data.content || []).find((block: any) => block.type === 'tool_use');
+
+        return {
+            text: toolUse ? JSON.stringify(toolUse.input) : data.content?.find((block: any) => block.type === 'text')?.text || '',
+            inputTokens: data.usage?.input_tokens || 0,
+            outputTokens: data.usage?.output_tokens || 0,
+            rawResponse: data
+        };
+    },
+
+    listModels: () => fetchClaudeModels(),
+    healthCheck: async (config) => config.apiKey
+        ? pingEndpoint('https://api.anthropic.com/v1/models', claudeHeaders(config.apiKey))
+        : { ok: false, error: 'Claude API key is required' }
 };
 
 // ============================================================================
-// PROVIDER FACTORY
+// PROVIDER REGISTRY
 // ============================================================================
+const registry = new Map<LLMProvider, LLMProviderDefinition>();
 
 /**
- * Get the appropriate LLM call function based on provider.
- * Note: 'internal' (Gemini) is handled directly in geminiService.ts
+ * Adds (or replaces) a provider. Built-in providers are registered at module load.
  */
-export const getLLMCallFunction = (provider: LLMProvider) => {
-    switch (provider) {
-        case 'local':
-            return callOllama;
-        case 'openai':
-            return callOpenAI;
-        case 'claude':
-            return callClaude;
-        default:
-            return null; // 'internal' handled separately
+export const registerProvider = (provider: LLMProviderDefinition): LLMProviderDefinition => {
+    registry.set(provider.id, provider);
+    return provider;
+};
+
+[geminiProvider, ollamaProvider, openAIProvider, claudeProvider, openAICompatibleProvider].forEach(registerProvider);
+
+export const getProvider = (id: LLMProvider): LLMProviderDefinition => {
+    const provider = registry.get(id);
+    if (!provider) {
+        throw new Error(`[LLM] Unknown provider: ${id}`);
     }
+    return provider;
 };
 
+export const listProviders = (): LLMProviderDefinition[] => Array.from(registry.values());
+
+/**
+ * Single entry point for every model call (Responder, Thinker, router).
+ */
+export const generateText = (config: LLMConfig, request: LLMRequest): Promise<LLMResponse> =>
+    getProvider(config.provider).generate(config, request);
+
+/**
+ * Whether the provider can be called at all (a key is present, or a local endpoint is configured).
+ */
+export const isProviderConfigured = (config: LLMConfig): boolean =>
+    registry.has(config.provider) && getProvider(config.provider).isConfigured(config);
+
+/**
+ * Models for the settings picker.
+ */
+export const fetchModelsForProvider = (config: LLMConfig): Promise<ModelInfo[]> =>
+    getProvider(config.provider).listModels(config);
+
+export const checkProviderHealth = (config: LLMConfig): Promise<{ ok: boolean; error?: string }> =>
+    getProvider(config.provider).healthCheck(config);
+
 // ============================================================================
 // DEFAULT CONFIGURATION
 // ============================================================================
 
 export const DEFAULT_LLM_CONFIG: LLMConfig = {
     provider: 'internal',
-    localEndpoint: 'http://localhost:11434'
+    localEndpoint: OLLAMA_DEFAULT_ENDPOINT
 };
 
 /**
  * Validate LLM configuration
  */
 export const validateConfig = (config: LLMConfig): { valid: boolean; error?: string } => {
-    switch (config.provider) {
-        case 'internal':
-            return { valid: true };
-        case 'local':
-            return { valid: true }; // Ollama availability checked at runtime
-        case 'openai':
-            if (!config.apiKey) {
-                return { valid: false, error: 'OpenAI API key is required' };
-            }
-            return { valid: true };
-        case 'claude':
-            if (!config.apiKey) {
-                return { valid: false, error: 'Claude API key is required' };
-            }
-            return { valid: true };
-        default:
-            return { valid: false, error: 'Unknown provider' };
+    const provider = registry.get(config.provider);
+    if (!provider) {
+        return { valid: false, error: 'Unknown provider' };
+    }
+    if (provider.apiKey === 'required' && !config.apiKey) {
+        return { valid: false, error: `${provider.label} API key is required` };
+    }
+    if (provider.requiresBaseUrl && !config.baseUrl) {
+        return { valid: false, error: `${provider.label} base URL is required` };
     }
+    return { valid: true };
 };
@@ -0,0 +1,83 @@
+/**
+ * ------------------------------------------------------------------
+ * MESSAGING ADAPTERS
+ * ------------------------------------------------------------------
+ * Outbound texts/emails (verification codes, ...) go through one active
+ * adapter, so a real SMS/email gateway can be plugged in with
+ * setMessagingAdapter() without touching the intake logic.
+ *
+ * Dev stand-ins:
+ * - console: logs the message.
+ * - outbox:  logs and keeps the message in a local outbox (localStorage
+ *            when available), shown in the Visualizer so testers can read codes.
+ */
+
+export interface OutboundMessage {
+  channel: 'sms' | 'email';
+  to: string;
+  body: string;
+  sent_at: number;
+}
+
+export interface MessagingAdapter {
+  id: string;
+  send: (message: OutboundMessage) => Promise<void>;
+}
+
+export const consoleMessagingAdapter: MessagingAdapter = {
+  id: 'console',
+  send: async (message) => {
+    console.log(`[MESSAGING][${message.channel.toUpperCase()}] to ${message.to}: ${message.body}`);
+  }
+};
+
+// ============================================================================
+// LOCAL OUTBOX (dev stand-in for a gateway)
+// ============================================================================
+const OUTBOX_STORAGE_KEY = 'devOutbox';
+const MAX_OUTBOX = 20;
+let memoryOutbox: OutboundMessage[] = [];
+
+const hasLocalStorage = (): boolean => typeof localStorage !== 'undefined';
+
+export const getOutbox = (): OutboundMessage[] => {
+  if (!hasLocalStorage()) return [...memoryOutbox];
+  try {
+    return JSON.parse(localStorage.getItem(OUTBOX_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const clearOutbox = (): void => {
+  memoryOutbox = [];
+  if (hasLocalStorage()) localStorage.removeItem(OUTBOX_STORAGE_KEY);
+};
+
+export const outboxMessagingAdapter: MessagingAdapter = {
+  id: 'outbox',
+  send: async (message) => {
+    await consoleMessagingAdapter.send(message);
+    const outbox = [...getOutbox(), message].slice(-MAX_OUTBOX);
+    if (hasLocalStorage()) {
+      localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(outbox));
+    } else {
+      memoryOutbox = outbox;
+    }
+  }
+};
+
+// ============================================================================
+// ACTIVE ADAPTER
+// ============================================================================
+let activeAdapter: MessagingAdapter = outboxMessagingAdapter;
+
+export const setMessagingAdapter = (adapter: MessagingAdapter): void => {
+  activeAdapter = adapter;
+  console.log(`[MESSAGING] Adapter set to: ${adapter.id}`);
+};
+
+export const getMessagingAdapter = (): MessagingAdapter => activeAdapter;
+
+export const sendMessage = (message: Omit<OutboundMessage, 'sent_at'>): Promise<void> =>
+  activeAdapter.send({ ...message, sent_at: Date.now() });
@@ -0,0 +1,111 @@
+import { CaseFile, FieldProvenance, LLMProvider, SourceQuote } from '../types';
+import { getActiveSteps, getFieldValue } from './stateLogic';
+
+/**
+ * ------------------------------------------------------------------
+ * FIELD PROVENANCE (Symbolic Part)
+ * ------------------------------------------------------------------
+ * Records which turn, which model and which client words produced each SOP field:
+ * 1. The models return `source_quotes` ({ field, quote }) next to the values.
+ * 2. A quote is kept only when it appears verbatim in a client message,
+ *    which also identifies the message (a paraphrase is not evidence).
+ * 3. Every changed field becomes one FieldProvenance entry, appended to
+ *    `CaseFile.provenance` by the caller when the patch is merged.
+ */
+
+/**
+ * The model that wrote the values. `message_id` is the turn being processed
+ * (Responder) or null (Thinker, which reads the whole history).
+ */
+export interface ProvenanceSource {
+  model_role: FieldProvenance['model_role'];
+  provider: LLMProvider;
+  model_name: string;
+  message_id: string | null;
+}
+
+type SourceMessage = { id?: string; role: string; content: string };
+
+// Case, whitespace and curly quotes should not break a verbatim match
+const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Most recent client message containing the quote. Null when the model paraphrased.
+ */
+export const locateQuote = (quote: unknown, messages: SourceMessage[]): { message_id: string | null; quote: string } | null => {
+  if (typeof quote !== 'string') return null;
+  const trimmed = quote.trim().replace(/^["']+|["']+$/g, '');
+  const needle = normalize(trimmed);
+  if (needle.length < 2) return null;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === 'user' && normalize(message.content).includes(needle)) {
+      return { message_id: message.id ?? null, quote: trimmed.replace(/\s+/g, ' ') };
+    }
+  }
+  return null;
+};
+
+/**
+ * SOP fields the patch actually changes, with their new values.
+ */
+export const getChangedFields = (caseFile: CaseFile, patch: Partial<CaseFile>): { field: string; value: any }[] =>
+  getActiveSteps(caseFile).flatMap(step => {
+    const [vector, field] = step.id.split('.');
+    const written = (patch as any)[vector]?.[field];
+    if (written === undefined) return [];
+    // Struct patches may carry only some members (e.g. the Thinker fixing a description)
+    const current = getFieldValue(caseFile, step.id);
+    const value = written && current && typeof written === 'object' && !Array.isArray(written) ? { ...current, ...written } : written;
+    if (JSON.stringify(value) === JSON.stringify(current)) return [];
+    return [{ field: step.id, value }];
+  });
+
+/**
+ * One provenance entry per SOP field the patch changes.
+ * Quotes for a struct member ("damages.injury_details.description") count for the struct field.
+ */
+export const buildProvenance = (
+  caseFile: CaseFile,
+  patch: Partial<CaseFile>,
+  source: ProvenanceSource,
+  quotes: SourceQuote[] | undefined,
+  messages: SourceMessage[],
+  now: number = Date.now()
+): FieldProvenance[] =>
+  getChangedFields(caseFile, patch).map(({ field, value }) => {
+    const located = (quotes || [])
+      .filter(q => q && typeof q.field === 'string' && (q.field === field || q.field.startsWith(`${field}.`)))
+      .map(q => locateQuote(q.quote, messages))
+      .find(match => match !== null);
+    return {
+      field,
+      value,
+      model_role: source.model_role,
+      provider: source.provider,
+      model_name: source.model_name,
+      message_id: located?.message_id ?? source.message_id,
+      quote: located?.quote ?? null,
+      recorded_at: now
+    };
+  });
+
+/**
+ * Patch appending entries to the provenance log (empty patch when there are none).
+ * Built from the latest case file at merge time, so parallel Responder/Thinker writes both land.
+ */
+export const appendProvenance = (caseFile: CaseFile, entries: FieldProvenance[] | undefined): Partial<CaseFile> =>
+  entries && entries.length > 0 ? { provenance: [...(caseFile.provenance || []), ...entries] } : {};
+
+/**
+ * Writes to one field, oldest first (the last entry produced the current value).
+ */
+export const getFieldProvenance = (caseFile: CaseFile, field: string): FieldProvenance[] =>
+  (caseFile.provenance || []).filter(entry => entry.field === field);
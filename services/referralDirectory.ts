@@ -0,0 +1,85 @@
+import { ReferralPartner } from '../types';
+
+/**
+ * ------------------------------------------------------------------
+ * REFERRAL DIRECTORY
+ * ------------------------------------------------------------------
+ * Partner firms we pass declined cases to, by practice area and state.
+ * Kept local (no network call) like the SOL table and the gazetteer;
+ * replace with the firm's own list before going live.
+ *
+ * Nationwide partners are the fallback when no firm serves the state
+ * (or the state is not known yet, e.g. prior representation is asked
+ * before the incident location).
+ */
+
+export const REFERRAL_DIRECTORY: ReferralPartner[] = [
+  {
+    id: 'pacific-injury',
+    name: 'Pacific Injury Partners LLP',
+    practice_areas: ['auto_accident', 'slip_and_fall', 'dog_bite'],
+    states: ['CA', 'OR', 'WA', 'NV'],
+    phone: '+14155550142',
+    email: 'intake@pacificinjury.example',
+    website: 'https://pacificinjury.example'
+  },
+  {
+    id: 'lone-star-trial',
+    name: 'Lone Star Trial Group',
+    practice_areas: ['auto_accident', 'slip_and_fall', 'dog_bite', 'workers_comp'],
+    states: ['TX', 'OK', 'LA', 'NM'],
+    phone: '+12145550177',
+    email: 'referrals@lonestartrial.example'
+  },
+  {
+    id: 'empire-med-mal',
+    name: 'Empire Medical Malpractice Counsel',
+    practice_areas: ['medical_malpractice'],
+    states: ['NY', 'NJ', 'CT', 'PA'],
+    phone: '+12125550119',
+    email: 'newcases@empiremedmal.example',
+    website: 'https://empiremedmal.example'
+  },
+  {
+    id: 'great-lakes-workers',
+    name: 'Great Lakes Workers’ Rights',
+    practice_areas: ['workers_comp'],
+    states: ['IL', 'MI', 'OH', 'WI', 'IN', 'MN'],
+    phone: '+13125550163',
+    email: 'help@greatlakesworkers.example'
+  },
+  {
+    id: 'midwest-accident',
+    name: 'Midwest Accident Attorneys',
+    practice_areas: ['auto_accident', 'slip_and_fall', 'dog_bite'],
+    states: ['IL', 'MI', 'OH', 'WI', 'IN', 'MN', 'IA', 'MO', 'KS', 'NE'],
+    phone: '+13145550128',
+    email: 'intake@midwestaccident.example'
+  },
+  {
+    id: 'sunshine-injury',
+    name: 'Sunshine State Injury Law',
+    practice_areas: ['auto_accident', 'slip_and_fall', 'dog_bite', 'medical_malpractice'],
+    states: ['FL', 'GA', 'AL', 'SC'],
+    phone: '+13055550191',
+    email: 'referrals@sunshineinjury.example'
+  },
+  {
+    id: 'mountain-west',
+    name: 'Mountain West Personal Injury',
+    practice_areas: ['auto_accident', 'slip_and_fall', 'dog_bite', 'workers_comp'],
+    states: ['CO', 'UT', 'AZ', 'ID', 'MT', 'WY'],
+    phone: '+13035550154',
+    email: 'intake@mountainwestpi.example'
+  },
+  {
+    id: 'national-injury-network',
+    name: 'National Injury Referral Network',
+    practice_areas: ['auto_accident', 'slip_and_fall', 'dog_bite', 'medical_malpractice', 'workers_comp'],
+    states: [],
+    nationwide: true,
+    phone: '+18005550100',
+    email: 'match@nationalinjury.example',
+    website: 'https://nationalinjury.example'
+  }
+];
@@ -0,0 +1,185 @@
+import { CaseFile, CaseTypeId, IntakeTurnResponse, Party, Referral, ReferralPacket, ReferralPartner, ReferralReason, StatusActor } from '../types';
+import { FIRM_SERVICE_STATES, MOCK_CLIENT_DB, US_STATES } from '../constants';
+import { REFERRAL_DIRECTORY } from './referralDirectory';
+import { isCaseOpen, transitionStatus } from './caseLifecycle';
+import { getCaseType } from './caseTypeRegistry';
+import { parseConfirmation } from './caseClassifier';
+
+/**
+ * ------------------------------------------------------------------
+ * REFERRAL WORKFLOW (Symbolic Part)
+ * ------------------------------------------------------------------
+ * Cases we must decline (already represented, conflict of interest,
+ * incident outside FIRM_SERVICE_STATES) are passed to a partner firm:
+ * 1. findReferralPartner picks a firm by practice area and state
+ *    (nationwide partners as fallback). No partner -> REJECTED.
+ * 2. The case moves to REFERRED with the partner on `CaseFile.referral`.
+ * 3. The closing message gives the client the partner's details and asks
+ *    whether we may share theirs; the next reply records `consent`.
+ * 4. Once consent is answered the case moves REFERRED -> CLOSED.
+ * 5. With consent, buildReferralPacket produces the subset sent to the partner.
+ */
+
+// ============================================================================
+// PARTNER SELECTION
+// ============================================================================
+
+/**
+ * First partner serving the practice area in the state, else a nationwide one.
+ */
+export const findReferralPartner = (caseType: CaseTypeId | null, state: string | null): ReferralPartner | undefined => {
+  if (!caseType) return undefined;
+  const candidates = REFERRAL_DIRECTORY.filter(partner => partner.practice_areas.includes(caseType));
+  return (state ? candidates.find(partner => partner.states.includes(state)) : undefined)
+    ?? candidates.find(partner => partner.nationwide);
+};
+
+/**
+ * Declines the case: REFERRED to a partner when the directory has one, REJECTED otherwise.
+ * `detail` is the internal reason recorded in the status history.
+ */
+export const declineCase = (
+  caseFile: CaseFile,
+  reason: ReferralReason,
+  actor: StatusActor,
+  detail: string,
+  now: number = Date.now()
+): Partial<CaseFile> => {
+  const partner = findReferralPartner(caseFile.case_type, caseFile.incident.location_normalized?.state ?? null);
+  if (!partner) {
+    return transitionStatus(caseFile, 'REJECTED', actor, `${detail} No referral partner for this practice area and state.`, now);
+  }
+
+  const referral: Referral = {
+    partner_id: partner.id,
+    partner_name: partner.name,
+    partner_phone: partner.phone,
+    partner_email: partner.email,
+    reason,
+    referred_at: now,
+    consent: null
+  };
+  return { ...transitionStatus(caseFile, 'REFERRED', actor, `${detail} Referred to ${partner.name}.`, now), referral };
+};
+
+const isExistingClient = (name: string): boolean => {
+  const normalizedInput = name.toLowerCase().trim();
+  return MOCK_CLIENT_DB.some(client => client.toLowerCase() === normalizedInput);
+};
+
+/**
+ * First adverse party the firm already represents, if any.
+ */
+export const findConflictingParty = (parties: Party[] | null | undefined): string | undefined =>
+  (parties || []).map(party => party?.name?.trim()).find((name): name is string => !!name && isExistingClient(name));
+
+/**
+ * Decline triggers the data itself can reveal. Checked on every merge (Responder turn,
+ * Thinker correction, staff edit), whichever wrote the field.
+ */
+export const getReferralTrigger = (caseFile: CaseFile): { reason: ReferralReason; detail: string } | null => {
+  const conflictingParty = findConflictingParty(caseFile.admin.adverse_parties);
+  if (conflictingParty) {
+    return { reason: 'conflict', detail: `Conflict of interest: the firm already represents ${conflictingParty}.` };
+  }
+  if (caseFile.admin.prior_representation === true) {
+    return { reason: 'prior_representation', detail: 'Client is already represented by an attorney.' };
+  }
+  const state = caseFile.incident.location_normalized?.state;
+  if (state && !FIRM_SERVICE_STATES.includes(state)) {
+    return { reason: 'out_of_jurisdiction', detail: `Incident in ${state}, outside the states the firm practices in.` };
+  }
+  return null;
+};
+
+/**
+ * Returns the decline patch when an open case has hit a referral trigger, else an empty patch.
+ */
+export const applyReferralRules = (caseFile: CaseFile, actor: StatusActor, now: number = Date.now()): Partial<CaseFile> => {
+  if (!isCaseOpen(caseFile)) return {};
+  const trigger = getReferralTrigger(caseFile);
+  return trigger ? declineCase(caseFile, trigger.reason, actor, trigger.detail, now) : {};
+};
+
+// ============================================================================
+// CLIENT MESSAGES
+// ============================================================================
+
+const formatPhone = (phone: string): string => {
+  const us = phone.match(/^\+1(\d{3})(\d{3})(\d{4})$/);
+  return us ? `(${us[1]}) ${us[2]}-${us[3]}` : phone;
+};
+
+const getConsentQuestion = (referral: Referral): string =>
+  `May we send ${referral.partner_name} your contact details and a short summary of what you told us, so they can reach out to you? (yes/no)`;
+
+/**
+ * Closing message for a declined case (`caseFile` already carries the decline patch).
+ */
+export const getDeclineMessage = (caseFile: CaseFile, reason: ReferralReason): string => {
+  const stateCode = caseFile.incident.location_normalized?.state;
+  const opening = reason === 'prior_representation'
+    ? 'Since you already have an attorney for this matter, we are not able to take it on.'
+    : reason === 'conflict'
+      ? 'Unfortunately, a conflict of interest prevents our firm from taking your case.'
+      : `Unfortunately, our attorneys do not practice in ${stateCode ? US_STATES[stateCode] || stateCode : 'that state'}, where this happened.`;
+
+  const referral = caseFile.referral;
+  if (caseFile.status !== 'REFERRED' || !referral) {
+    return `${opening} We recommend contacting your state bar association's lawyer referral service.`;
+  }
+  const area = getCaseType(caseFile.case_type).label.toLowerCase();
+  return `${opening} ${referral.partner_name} handles ${area} matters and may be able to help: ${formatPhone(referral.partner_phone)}, ${referral.partner_email}. ${getConsentQuestion(referral)}`;
+};
+
+/**
+ * Handles the reply to the consent question: records consent and closes the case.
+ * Returns null once consent has been answered (or the case was not referred).
+ */
+export const resolveReferralConsentReply = (caseFile: CaseFile, userMessage: string, now: number = Date.now()): IntakeTurnResponse | null => {
+  const referral = caseFile.referral;
+  if (caseFile.status !== 'REFERRED' || !referral || referral.consent !== null) return null;
+
+  const consent = parseConfirmation(userMessage);
+  if (consent === null) {
+    return { extracted_data: {}, response_text: `Just to confirm: ${getConsentQuestion(referral)}` };
+  }
+  return {
+    extracted_data: {
+      referral: { ...referral, consent },
+      ...transitionStatus(caseFile, 'CLOSED', 'responder', consent
+        ? `Client consented to sharing their details with ${referral.partner_name}.`
+        : `Client declined to share their details with ${referral.partner_name}.`, now)
+    },
+    response_text: consent
+      ? `Thank you. We will pass your details to ${referral.partner_name}, and they should contact you shortly. You can also reach them directly at ${formatPhone(referral.partner_phone)}.`
+      : `Understood, we will not share your details. You can contact ${referral.partner_name} directly at ${formatPhone(referral.partner_phone)} or ${referral.partner_email} whenever you are ready.`,
+    next_system_action: 'REJECTED_GENERIC'
+  };
+};
+
+// ============================================================================
+// REFERRAL PACKET (export)
+// ============================================================================
+
+/**
+ * The consented subset of the case file sent to the partner firm.
+ * Null unless the case was referred and the client said yes (the case is CLOSED by then).
+ */
+export const buildReferralPacket = (caseFile: CaseFile, now: Date = new Date()): ReferralPacket | null => {
+  const referral = caseFile.referral;
+  if (!referral || referral.consent !== true) return null;
+
+  const { full_name, email, phone_number, preferred_contact_method, best_time_to_call } = caseFile.contact;
+  const { accident_date, location_jurisdiction, location_normalized } = caseFile.incident;
+  return {
+    case_id: caseFile.case_id,
+    generated_at: now.toISOString(),
+    partner: { id: referral.partner_id, name: referral.partner_name },
+    case_type: caseFile.case_type,
+    contact: { full_name, email, phone_number, preferred_contact_method, best_time_to_call },
+    incident: { accident_date, location_jurisdiction, location_normalized },
+    injury_description: caseFile.damages.injury_details.description,
+    sol_deadline: caseFile.sol?.deadline ?? null
+  };
+};
@@ -1,9 +1,11 @@
 
 import { Type } from "@google/genai";
+import { CaseTypeDefinition } from '../types';
 
 /**
- * FULL DATA DEFINITIONS
- * This serves as the "Master Dictionary" of all schema definitions.
+ * CORE DATA DEFINITIONS
+ * This serves as the "Master Dictionary" of the schema shared by every case type.
+ * Case types add their own vectors/fields on top (see getSchemaDefinitions).
  * We pick and choose from here to build the scoped schema.
  */
 const SCHEMA_DEFINITIONS: Record<string, any> = {
@@ -13,6 +15,9 @@ const SCHEMA_DEFINITIONS: Record<string, any> = {
         properties: {
             full_name: { type: Type.STRING },
             email: { type: Type.STRING },
+            phone_number: { type: Type.STRING },
+            preferred_contact_method: { type: Type.STRING, enum: ['Phone', 'Text', 'Email'] },
+            best_time_to_call: { type: Type.STRING },
         }
     },
     // INCIDENT
@@ -24,7 +29,6 @@ const SCHEMA_DEFINITIONS: Record<string, any> = {
             location_jurisdiction: { type: Type.STRING },
             police_report_filed: { type: Type.BOOLEAN },
             weather_conditions: { type: Type.STRING },
-            vehicle_description: { type: Type.STRING },
         }
     },
     // LIABILITY
@@ -40,7 +44,17 @@ const SCHEMA_DEFINITIONS: Record<string, any> = {
             },
             citation_issued: { type: Type.BOOLEAN },
             witness_presence: { type: Type.BOOLEAN },
-            claimant_role: { type: Type.STRING, enum: ["Driver", "Passenger", "Pedestrian"] },
+            witnesses: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        name: { type: Type.STRING },
+                        phone: { type: Type.STRING },
+                        email: { type: Type.STRING }
+                    }
+                }
+            },
         }
     },
     // DAMAGES
@@ -71,35 +85,159 @@ const SCHEMA_DEFINITIONS: Record<string, any> = {
             },
         }
     },
+    // MEDICAL
+    "medical": {
+        type: Type.OBJECT,
+        properties: {
+            providers: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        name: { type: Type.STRING },
+                        type: { type: Type.STRING, enum: ['Hospital', 'Emergency Room', 'Urgent Care', 'Primary Care', 'Chiropractor', 'Physical Therapy', 'Specialist', 'Other'] }
+                    }
+                }
+            },
+            first_treatment_date: { type: Type.STRING },
+            treatment_ongoing: { type: Type.BOOLEAN },
+            last_treatment_date: { type: Type.STRING },
+            bills: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        description: { type: Type.STRING },
+                        provider: { type: Type.STRING },
+                        amount: { type: Type.NUMBER }
+                    }
+                }
+            },
+        }
+    },
     // ADMIN
     "admin": {
         type: Type.OBJECT,
         properties: {
             insurance_status: { type: Type.BOOLEAN },
             prior_representation: { type: Type.BOOLEAN },
-            conflict_party: { type: Type.STRING },
+            adverse_parties: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        name: { type: Type.STRING },
+                        role: { type: Type.STRING, enum: ['Driver', 'Owner', 'Employer', 'Business', 'Medical Provider', 'Other'] },
+                        insurer: { type: Type.STRING }
+                    }
+                }
+            },
         }
     }
 };
 
 /**
- * Generates a focused JSON Schema that ONLY allows extraction of the specific fields
- * requested in the missingSlots list.
- * 
- * @param missingSlots List of dot-notation field IDs (e.g. ["contact.full_name", "incident.accident_date"])
- * @returns A strictly scoped JSON schema object
+ * Returns the master dictionary for a case type: the core definitions with the
+ * type's vectors and field additions merged in at the property level.
+ */
+export const getSchemaDefinitions = (caseType?: CaseTypeDefinition): Record<string, any> => {
+    const merged: Record<string, any> = {};
+    Object.entries(SCHEMA_DEFINITIONS).forEach(([vectorKey, def]) => {
+        merged[vectorKey] = { ...def, properties: { ...def.properties } };
+    });
+
+    Object.entries(caseType?.schemaDefinitions || {}).forEach(([vectorKey, def]) => {
+        const existing = merged[vectorKey];
+        merged[vectorKey] = existing
+            ? { ...existing, properties: { ...existing.properties, ...def.properties } }
+            : { type: Type.OBJECT, ...def, properties: { ...def.properties } };
+    });
+
+    return merged;
+};
+
+/**
+ * Returns the schema definition for a single dot-notation field, or undefined.
  */
+export const getFieldSchema = (fieldId: string, caseType?: CaseTypeDefinition): any => {
+    const [vectorKey, fieldKey] = fieldId.split('.');
+    return getSchemaDefinitions(caseType)[vectorKey]?.properties?.[fieldKey];
+};
+
+/**
+ * List fields are extracted as `{ items, no_more }`: only the NEW entries from
+ * this turn, plus whether the user said there are no more (see SopStep.repeat).
+ */
+const toListAnswer = (listDef: any): any => ({
+    type: Type.OBJECT,
+    nullable: true,
+    properties: {
+        items: { ...listDef, nullable: true },
+        no_more: { type: Type.BOOLEAN, nullable: true }
+    }
+});
+
+// Client words supporting each extracted value (see services/provenance.ts)
+const SOURCE_QUOTES_SCHEMA = {
+    type: Type.ARRAY,
+    nullable: true,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            field: { type: Type.STRING },
+            quote: { type: Type.STRING }
+        },
+        required: ["field", "quote"]
+    }
+};
+
+// Model certainty (0-1) of each extracted value (low -> read back to the client)
+const FIELD_CONFIDENCE_SCHEMA = {
+    type: Type.ARRAY,
+    nullable: true,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            field: { type: Type.STRING },
+            confidence: { type: Type.NUMBER }
+        },
+        required: ["field", "confidence"]
+    }
+};
+
+// Fields a Thinker verification prompt is about
+const VALIDATION_ERRORS_SCHEMA = {
+    type: Type.ARRAY,
+    nullable: true,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            field: { type: Type.STRING },
+            issue: { type: Type.STRING },
+            suggestion: { type: Type.STRING, nullable: true }
+        },
+        required: ["field", "issue"]
+    }
+};
+
 /**
  * Generates a FLAT focused JSON Schema that ONLY allows extraction of the specific fields.
  * Example result: { "contact.full_name": { type: STRING }, "incident.accident_date": { type: STRING } }
+ *
+ * @param missingSlots List of dot-notation field IDs (e.g. ["contact.full_name", "incident.accident_date"])
+ * @param caseType Active case type, whose definitions extend the core dictionary
+ * @returns A strictly scoped JSON schema object
  */
-export const generateScopedSchema = (missingSlots: string[]): any => {
+export const generateScopedSchema = (missingSlots: string[], caseType?: CaseTypeDefinition): any => {
+    const definitions = getSchemaDefinitions(caseType);
 
     // Base Structure is now a flat object with response_text
     const scopedSchema: any = {
         type: Type.OBJECT,
         properties: {
-            response_text: { type: Type.STRING }
+            response_text: { type: Type.STRING },
+            source_quotes: SOURCE_QUOTES_SCHEMA,
+            field_confidence: FIELD_CONFIDENCE_SCHEMA
         },
         required: ["response_text"] // Enforce the model to speak
     };
@@ -112,12 +250,14 @@ export const generateScopedSchema = (missingSlots: string[]): any => {
         const [vectorKey, fieldKey] = slotId.split('.');
 
         // Fetch the Master Definition
-        const masterVector = SCHEMA_DEFINITIONS[vectorKey];
+        const masterVector = definitions[vectorKey];
         if (masterVector && masterVector.properties && masterVector.properties[fieldKey]) {
             // Inject the field definition using the flat dot-notation ID as the key
             // MODIFICATION: Force nullable: true for all fields in this scoped schema
-            const fieldDef = { ...masterVector.properties[fieldKey], nullable: true };
-            props[slotId] = fieldDef;
+            const masterDef = masterVector.properties[fieldKey];
+            props[slotId] = masterDef.type === Type.ARRAY
+                ? toListAnswer(masterDef)
+                : { ...masterDef, nullable: true };
             requiredFields.push(slotId); // Force valid JSON to include this key
         }
     });
@@ -127,3 +267,123 @@ export const generateScopedSchema = (missingSlots: string[]): any => {
 
     return scopedSchema;
 };
+
+// Recursively marks a schema node (and every nested property) as nullable.
+const toNullable = (def: any): any => {
+    const copy: any = { ...def, nullable: true };
+    if (def.properties) {
+        copy.properties = {};
+        Object.entries(def.properties).forEach(([key, child]) => {
+            copy.properties[key] = toNullable(child);
+        });
+    }
+    if (def.items) copy.items = toNullable(def.items);
+    return copy;
+};
+
+/**
+ * Generates the NESTED Thinker (audit) schema for a case type.
+ * Only the fields the type's SOP actually collects are exposed, so the Thinker
+ * can neither fill nor invalidate fields that do not belong to the active practice area.
+ */
+export const generateAuditSchema = (caseType: CaseTypeDefinition): any => {
+    const definitions = getSchemaDefinitions(caseType);
+    const vectors: Record<string, any> = {};
+
+    caseType.sop.steps.forEach(step => {
+        const [vectorKey, fieldKey] = step.id.split('.');
+        const fieldDef = definitions[vectorKey]?.properties?.[fieldKey];
+        if (!fieldDef) return;
+        if (!vectors[vectorKey]) {
+            vectors[vectorKey] = { type: Type.OBJECT, properties: {}, nullable: true };
+        }
+        vectors[vectorKey].properties[fieldKey] = toNullable(fieldDef);
+    });
+
+    return {
+        type: Type.OBJECT,
+        properties: {
+            audit_reasoning: { type: Type.STRING },
+            corrected_data: {
+                type: Type.OBJECT,
+                properties: vectors,
+                nullable: true
+            },
+            // Cleared and re-asked; a null in corrected_data means "unchanged" to strict decoders
+            invalidated_fields: { type: Type.ARRAY, items: { type: Type.STRING }, nullable: true },
+            // Clarifying question for the client, asked in the next Responder turn (see clarifications.ts)
+            flagged_issue: { type: Type.STRING, nullable: true },
+            verification_prompt: { type: Type.STRING, nullable: true },
+            validation_errors: VALIDATION_ERRORS_SCHEMA,
+            source_quotes: SOURCE_QUOTES_SCHEMA,
+            field_confidence: FIELD_CONFIDENCE_SCHEMA,
+        }
+    };
+};
+
+/**
+ * Translates a Gemini schema (Type.OBJECT, nullable, ...) into standard JSON Schema
+ * for the other providers' structured output (Claude tool input, Ollama format).
+ */
+export const toJsonSchema = (schema: any): any => {
+    if (!schema || typeof schema !== 'object') return schema;
+    const type = typeof schema.type === 'string' ? schema.type.toLowerCase() : undefined;
+    const json: any = { type: schema.nullable && type ? [type, 'null'] : type };
+    if (schema.enum) json.enum = schema.nullable ? [...schema.enum, null] : schema.enum;
+    if (schema.description) json.description = schema.description;
+    if (schema.properties) {
+        json.properties = {};
+        Object.entries(schema.properties).forEach(([key, child]) => {
+            json.properties[key] = toJsonSchema(child);
+        });
+    }
+    if (schema.items) json.items = toJsonSchema(schema.items);
+    if (schema.required) json.required = schema.required;
+    return json;
+};
+
+// Adds null to a JSON Schema node's type (and enum)
+const toNullableJsonSchema = (json: any): any => {
+    if (!json.type || Array.isArray(json.type)) return json;
+    return { ...json, type: [json.type, 'null'], ...(json.enum ? { enum: [...json.enum, null] } : {}) };
+};
+
+/**
+ * JSON Schema for strict decoders (OpenAI structured outputs): every object is closed
+ * (additionalProperties: false) and lists all its keys as required. Keys the Gemini schema
+ * left optional become nullable; stripOptionalNulls drops them from the answer again.
+ */
+export const toStrictJsonSchema = (schema: any): any => {
+    const close = (json: any): any => {
+        if (!json || typeof json !== 'object') return json;
+        const strict: any = { ...json };
+        if (json.properties) {
+            const required: string[] = json.required || [];
+            strict.properties = {};
+            Object.entries(json.properties).forEach(([key, child]) => {
+                strict.properties[key] = required.includes(key) ? close(child) : toNullableJsonSchema(close(child));
+            });
+            strict.required = Object.keys(json.properties);
+            strict.additionalProperties = false;
+        }
+        if (json.items) strict.items = close(json.items);
+        return strict;
+    };
+    return close(toJsonSchema(schema));
+};
+
+/**
+ * Removes null values of optional keys (see toStrictJsonSchema), so a strict answer
+ * reads like one where the model simply omitted them.
+ */
+export const stripOptionalNulls = (value: any, schema: any): any => {
+    if (Array.isArray(value)) return schema?.items ? value.map(item => stripOptionalNulls(item, schema.items)) : value;
+    if (!value || typeof value !== 'object' || !schema?.properties) return value;
+    const required: string[] = schema.required || [];
+    const stripped: any = {};
+    Object.entries(value).forEach(([key, child]) => {
+        if (child === null && !required.includes(key)) return;
+        stripped[key] = stripOptionalNulls(child, schema.properties[key]);
+    });
+    return stripped;
+};
@@ -0,0 +1,96 @@
+import { SolRule } from '../types';
+
+/**
+ * ------------------------------------------------------------------
+ * STATUTE OF LIMITATIONS TABLE
+ * ------------------------------------------------------------------
+ * Limitation periods for the practice areas the firm takes, per state.
+ * Every state has a 'default' row (general personal injury); practice
+ * areas with their own statute (malpractice, workers' comp) override it.
+ *
+ * The table is intake guidance, not legal advice: anything close to the
+ * deadline or expired is routed to an attorney via the tolling notes.
+ */
+
+const MINORS = 'Tolled for minors until age 18.';
+const GOV_NOTICE = 'Claims against a government entity need a notice of claim well before this deadline.';
+const DEFAULT_NOTES = `${MINORS} ${GOV_NOTICE}`;
+
+const personalInjury = (state: string, years: number, extra?: string): SolRule => ({
+  state,
+  claim_type: 'default',
+  years,
+  tolling_notes: extra ? `${extra} ${DEFAULT_NOTES}` : DEFAULT_NOTES
+});
+
+export const SOL_RULES: SolRule[] = [
+  // --- General personal injury (auto, premises, dog bite) ---
+  personalInjury('AL', 2),
+  personalInjury('AK', 2),
+  personalInjury('AZ', 2),
+  personalInjury('AR', 3),
+  personalInjury('CA', 2),
+  personalInjury('CO', 2, 'Motor vehicle claims: 3 years.'),
+  personalInjury('CT', 2),
+  personalInjury('DE', 2),
+  personalInjury('DC', 3),
+  personalInjury('FL', 2, 'Negligence accruing before 2023-03-24: 4 years.'),
+  personalInjury('GA', 2),
+  personalInjury('HI', 2),
+  personalInjury('ID', 2),
+  personalInjury('IL', 2),
+  personalInjury('IN', 2),
+  personalInjury('IA', 2),
+  personalInjury('KS', 2),
+  personalInjury('KY', 1, 'Motor vehicle claims: 2 years from the accident or last PIP payment.'),
+  personalInjury('LA', 2, 'Torts arising before 2024-07-01: 1 year.'),
+  personalInjury('ME', 6),
+  personalInjury('MD', 3),
+  personalInjury('MA', 3),
+  personalInjury('MI', 3),
+  personalInjury('MN', 6, 'Intentional torts (e.g. assault): 2 years.'),
+  personalInjury('MS', 3),
+  personalInjury('MO', 5),
+  personalInjury('MT', 3),
+  personalInjury('NE', 4),
+  personalInjury('NV', 2),
+  personalInjury('NH', 3),
+  personalInjury('NJ', 2),
+  personalInjury('NM', 3),
+  personalInjury('NY', 3),
+  personalInjury('NC', 3),
+  personalInjury('ND', 6),
+  personalInjury('OH', 2),
+  personalInjury('OK', 2),
+  personalInjury('OR', 2),
+  personalInjury('PA', 2),
+  personalInjury('RI', 3),
+  personalInjury('SC', 3),
+  personalInjury('SD', 3),
+  personalInjury('TN', 1),
+  personalInjury('TX', 2),
+  personalInjury('UT', 4),
+  personalInjury('VT', 3),
+  personalInjury('VA', 2),
+  personalInjury('WA', 3),
+  personalInjury('WV', 2),
+  personalInjury('WI', 3),
+  personalInjury('WY', 4),
+
+  // --- Medical malpractice (discovery rule: clock starts when the harm was discovered) ---
+  { state: 'CA', claim_type: 'medical_malpractice', years: 1, discovery_rule: true, tolling_notes: `1 year from discovery, never more than 3 years from treatment. ${MINORS}` },
+  { state: 'FL', claim_type: 'medical_malpractice', years: 2, discovery_rule: true, tolling_notes: `Statute of repose: 4 years from treatment. Pre-suit notice required. ${MINORS}` },
+  { state: 'IL', claim_type: 'medical_malpractice', years: 2, discovery_rule: true, tolling_notes: `Statute of repose: 4 years from treatment. ${MINORS}` },
+  { state: 'NY', claim_type: 'medical_malpractice', years: 2.5, tolling_notes: `Continuous treatment doctrine may delay accrual. Foreign objects: 1 year from discovery. ${MINORS}` },
+  { state: 'OH', claim_type: 'medical_malpractice', years: 1, discovery_rule: true, tolling_notes: `A 180-day notice letter extends the deadline. Repose: 4 years. ${MINORS}` },
+  { state: 'PA', claim_type: 'medical_malpractice', years: 2, discovery_rule: true, tolling_notes: `Statute of repose: 7 years from treatment. ${MINORS}` },
+  { state: 'TX', claim_type: 'medical_malpractice', years: 2, tolling_notes: `Pre-suit notice tolls for 75 days. Repose: 10 years. ${MINORS}` },
+
+  // --- Workers' compensation (time to file the claim with the state board) ---
+  { state: 'CA', claim_type: 'workers_comp', years: 1, tolling_notes: 'Employer must be notified within 30 days of the injury.' },
+  { state: 'FL', claim_type: 'workers_comp', years: 2, tolling_notes: 'Employer must be notified within 30 days of the injury.' },
+  { state: 'IL', claim_type: 'workers_comp', years: 3, tolling_notes: 'Or 2 years from the last compensation payment, whichever is later.' },
+  { state: 'NY', claim_type: 'workers_comp', years: 2, tolling_notes: 'Employer must be notified in writing within 30 days.' },
+  { state: 'PA', claim_type: 'workers_comp', years: 3, tolling_notes: 'Employer must be notified within 120 days.' },
+  { state: 'TX', claim_type: 'workers_comp', years: 1, tolling_notes: 'Employer must be notified within 30 days.' },
+];
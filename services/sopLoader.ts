@@ -0,0 +1,150 @@
+import { SopCondition, SopDefinition, SopStep } from '../types';
+import { FIELD_VALIDATORS, DEFAULT_VALIDATOR } from './fieldValidators';
+
+/**
+ * ------------------------------------------------------------------
+ * SOP LOADER
+ * ------------------------------------------------------------------
+ * Turns the raw SOP document (JSON) into a typed SopDefinition.
+ * Runs once at module load, so a broken document fails the app at
+ * startup instead of silently skipping questions mid-conversation.
+ *
+ * VALIDATION RULES:
+ * - Every step needs id, label, vector, instruction and template_question.
+ * - The id must be "vector.field" and resolve to a field in the case template.
+ * - Ids must be unique.
+ * - The validator (if given) must exist in FIELD_VALIDATORS.
+ * - A `when` condition may only reference fields owned by an SOP step,
+ *   otherwise the step could stay "deferred" forever.
+ * - A `repeat` block (list step) needs key, item_label and more_question.
+ */
+
+const REQUIRED_STEP_KEYS = ['id', 'label', 'vector', 'instruction', 'template_question'] as const;
+const REQUIRED_TERMINALS = ['REJECT_PRIOR_REP', 'REJECTED_GENERIC', 'COMPLETE'];
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const fieldExists = (template: Record<string, any>, fieldId: string): boolean => {
+  const [vectorKey, fieldKey, ...rest] = fieldId.split('.');
+  if (!vectorKey || !fieldKey || rest.length > 0) return false;
+  const vector = template[vectorKey];
+  return !!vector && typeof vector === 'object' && fieldKey in vector;
+};
+
+const CONDITION_OPERATORS = ['equals', 'not_equals', 'in', 'not_in'];
+
+/**
+ * Collects problems in a `when` condition. `stepIds` are the fields the SOP
+ * will actually ask, which is what a condition is allowed to depend on.
+ */
+const checkCondition = (condition: any, stepIds: Set<string>, where: string, problems: string[]): void => {
+  if (!condition || typeof condition !== 'object') {
+    problems.push(`${where}: "when" must be an object`);
+    return;
+  }
+
+  if ('all' in condition || 'any' in condition) {
+    const children = condition.all ?? condition.any;
+    if (!Array.isArray(children) || children.length === 0) {
+      problems.push(`${where}: "all"/"any" must be a non-empty array`);
+      return;
+    }
+    children.forEach((child: SopCondition) => checkCondition(child, stepIds, where, problems));
+    return;
+  }
+
+  if (!isNonEmptyString(condition.field)) {
+    problems.push(`${where}: condition is missing "field"`);
+    return;
+  }
+
+  const ownerStep = condition.field.split('.').slice(0, 2).join('.');
+  if (!stepIds.has(ownerStep)) {
+    problems.push(`${where}: condition field "${condition.field}" is not collected by any step`);
+  }
+
+  const operators = CONDITION_OPERATORS.filter(op => op in condition);
+  if (operators.length !== 1) {
+    problems.push(`${where}: condition needs exactly one of ${CONDITION_OPERATORS.join(', ')}`);
+  } else if ((operators[0] === 'in' || operators[0] === 'not_in') && !Array.isArray(condition[operators[0]])) {
+    problems.push(`${where}: "${operators[0]}" must be an array`);
+  }
+};
+
+export const loadSopDefinition = (raw: any, caseTemplate: Record<string, any>): SopDefinition => {
+  const problems: string[] = [];
+
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('[SOP] Definition must be a JSON object');
+  }
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    throw new Error('[SOP] Definition must contain a non-empty "steps" array');
+  }
+
+  const seen = new Set<string>();
+  const steps: SopStep[] = raw.steps.map((rawStep: any, index: number) => {
+    const where = `steps[${index}]${isNonEmptyString(rawStep?.id) ? ` (${rawStep.id})` : ''}`;
+
+    REQUIRED_STEP_KEYS.forEach(key => {
+      if (!isNonEmptyString(rawStep?.[key])) problems.push(`${where}: missing "${key}"`);
+    });
+
+    if (isNonEmptyString(rawStep?.id)) {
+      if (seen.has(rawStep.id)) problems.push(`${where}: duplicate step id`);
+      seen.add(rawStep.id);
+      if (!fieldExists(caseTemplate, rawStep.id)) problems.push(`${where}: id does not match a CaseFile field`);
+    }
+
+    const validator = rawStep?.validator ?? DEFAULT_VALIDATOR;
+    if (!FIELD_VALIDATORS[validator]) problems.push(`${where}: unknown validator "${validator}"`);
+
+    if (rawStep?.constraint !== undefined && !isNonEmptyString(rawStep.constraint)) {
+      problems.push(`${where}: "constraint" must be a non-empty string when present`);
+    }
+
+    if (rawStep?.repeat !== undefined) {
+      ['key', 'item_label', 'more_question'].forEach(key => {
+        if (!isNonEmptyString(rawStep.repeat?.[key])) problems.push(`${where}: repeat is missing "${key}"`);
+      });
+    }
+
+    return {
+      id: rawStep?.id,
+      label: rawStep?.label,
+      vector: rawStep?.vector,
+      instruction: rawStep?.instruction,
+      template_question: rawStep?.template_question,
+      constraint: rawStep?.constraint,
+      validator,
+      when: rawStep?.when,
+      repeat: rawStep?.repeat
+    };
+  });
+
+  steps.forEach((step, index) => {
+    if (step.when !== undefined) {
+      checkCondition(step.when, seen, `steps[${index}] (${step.id})`, problems);
+    }
+  });
+
+  const terminal = raw.terminal_instructions || {};
+  REQUIRED_TERMINALS.forEach(key => {
+    if (!isNonEmptyString(terminal[key])) problems.push(`terminal_instructions: missing "${key}"`);
+  });
+
+  if (!isNonEmptyString(raw.defaults?.instruction)) problems.push('defaults: missing "instruction"');
+  if (!isNonEmptyString(raw.defaults?.template_question)) problems.push('defaults: missing "template_question"');
+
+  if (problems.length > 0) {
+    throw new Error(`[SOP] Invalid definition "${raw.name || 'unnamed'}":\n - ${problems.join('\n - ')}`);
+  }
+
+  return {
+    name: raw.name || 'Unnamed SOP',
+    version: typeof raw.version === 'number' ? raw.version : 1,
+    steps,
+    terminal_instructions: { ...terminal },
+    defaults: { ...raw.defaults }
+  };
+};
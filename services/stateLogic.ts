@@ -1,6 +1,9 @@
 
-import { CaseFile } from '../types';
-import { INTAKE_STEPS } from '../constants';
+import { CaseFile, CaseTypeId, FieldValidationResult, SopCondition, SopStep, StepStatus } from '../types';
+import { getCaseType, getActiveCaseType, listCaseTypes } from './caseTypeRegistry';
+import { FIELD_VALIDATORS, DEFAULT_VALIDATOR, getFieldValidators, oneOf } from './fieldValidators';
+import { getFieldSchema } from './schemaBuilder';
+import { DEFAULT_CONFIDENCE_THRESHOLD } from '../constants';
 
 /**
  * ------------------------------------------------------------------
@@ -10,99 +13,269 @@ import { INTAKE_STEPS } from '../constants';
  */
 
 /**
- * Checks if a specific field is "Complete" based on business logic.
- * Handles primitive checks and complex struct validation.
+ * The SOP steps of the case type active on this case file.
+ */
+export const getActiveSteps = (caseFile: CaseFile): SopStep[] => getActiveCaseType(caseFile).sop.steps;
+
+/**
+ * Looks up the SOP step definition for a field id.
+ * Searches the given case type first, then any registered type (shared steps
+ * and validators are identical across types).
  */
+export const getSopStep = (fieldId: string, caseTypeId: CaseTypeId | null = null): SopStep | undefined => {
+  const step = getCaseType(caseTypeId).sop.steps.find(s => s.id === fieldId);
+  if (step) return step;
+  for (const caseType of listCaseTypes()) {
+    const match = caseType.sop.steps.find(s => s.id === fieldId);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+/**
+ * Checks a value against every rule that applies to the field and returns the first failure:
+ * 1. The step's named rule (`validator` key in the SOP document, see fieldValidators.ts).
+ * 2. Format rules registered for the field id (email, phone, dates).
+ * 3. Enum membership from the field's schema definition.
+ * Null means "not answered yet" and is reported as `required`.
+ */
+export const checkField = (fieldId: string, value: any, caseTypeId: CaseTypeId | null = null): FieldValidationResult => {
+  // 1. Basic Null Check
+  if (value === null || value === undefined) return { valid: false, code: 'required' };
+
+  // 2. SOP-Referenced Rule + Field Rules
+  const validatorName = getSopStep(fieldId, caseTypeId)?.validator ?? DEFAULT_VALIDATOR;
+  for (const validator of [FIELD_VALIDATORS[validatorName], ...getFieldValidators(fieldId)]) {
+    const result = validator(value);
+    if (!result.valid) return result;
+  }
+
+  // 3. Schema Enum
+  const allowed = getFieldSchema(fieldId, getCaseType(caseTypeId))?.enum;
+  if (Array.isArray(allowed) && typeof value === 'string') return oneOf(allowed)(value);
+
+  return { valid: true };
+};
+
 /**
  * Checks if a specific field is "Complete" based on business logic.
- * Handles primitive checks and complex struct validation.
  * NOW EXPORTED for use in Gemini Service (Symbolic Validation Layer).
- *
- * VALIDATION RULES:
- * - contact.full_name: Must be at least 2 words (First + Last).
- * - incident.location: Must be > 3 chars (e.g. "City, State").
- * - Structs: Must have required dependent fields (e.g. "Yes" -> "Statement").
  */
-export const validateField = (fieldId: string, value: any): boolean => {
-  // 1. Basic Null Check
-  if (value === null) return false;
+export const validateField = (fieldId: string, value: any, caseTypeId: CaseTypeId | null = null): boolean =>
+  checkField(fieldId, value, caseTypeId).valid;
 
-  // 2. Specific Validation Rules (Stricter than just "not null")
+/**
+ * Safely reads a value from the CaseFile using a dot path ("vector.field" or deeper for structs).
+ * Returns null when any segment is missing.
+ */
+export const getFieldValue = (caseFile: CaseFile, path: string): any => {
+  let current: any = caseFile;
+  for (const key of path.split('.')) {
+    if (current === null || current === undefined || typeof current !== 'object') return null;
+    current = current[key];
+  }
+  return current === undefined ? null : current;
+};
 
-  // A. FULL NAME: Must be at least 2 words (First + Last)
-  if (fieldId === 'contact.full_name') {
-    if (typeof value === 'string') {
-      return value.trim().split(/\s+/).length >= 2;
-    }
-    return false;
+/**
+ * Evaluates a step's `when` condition.
+ * Returns null ("undetermined") while a referenced field is still unanswered,
+ * so the step is neither asked nor skipped until the answer is known.
+ */
+export const evaluateCondition = (condition: SopCondition, caseFile: CaseFile): boolean | null => {
+  if ('all' in condition) {
+    const results = condition.all.map(c => evaluateCondition(c, caseFile));
+    if (results.includes(false)) return false;
+    return results.includes(null) ? null : true;
+  }
+  if ('any' in condition) {
+    const results = condition.any.map(c => evaluateCondition(c, caseFile));
+    if (results.includes(true)) return true;
+    return results.includes(null) ? null : false;
   }
 
-  // B. JURISDICTION: Must be detailed (e.g. City, State)
-  if (fieldId === 'incident.location_jurisdiction') {
-    if (typeof value === 'string') {
-      return value.length > 3; // "NY" is too short, "NYC, NY" is ok
+  const value = getFieldValue(caseFile, condition.field);
+  if (value === null) return null;
+
+  if ('equals' in condition) return value === condition.equals;
+  if ('not_equals' in condition) return value !== condition.not_equals;
+  if ('in' in condition) return (condition.in || []).includes(value);
+  if ('not_in' in condition) return !(condition.not_in || []).includes(value);
+  return true;
+};
+
+// Lists the SOP step ids a condition depends on ("damages.injury_details.has_injury" -> "damages.injury_details").
+const getConditionDependencies = (condition: SopCondition): string[] => {
+  if ('all' in condition) return condition.all.flatMap(getConditionDependencies);
+  if ('any' in condition) return condition.any.flatMap(getConditionDependencies);
+  return [condition.field.split('.').slice(0, 2).join('.')];
+};
+
+/**
+ * Resolves the runtime status of an SOP step (see StepStatus).
+ * An undetermined condition whose dependencies were themselves skipped can
+ * never be decided, so the step is treated as not applicable too.
+ */
+export const getStepStatus = (step: SopStep, caseFile: CaseFile, visiting: Set<string> = new Set()): StepStatus => {
+  if (step.when) {
+    const applicable = evaluateCondition(step.when, caseFile);
+    if (applicable === false) return 'not_applicable';
+    if (applicable === null) {
+      if (visiting.has(step.id)) return 'deferred';
+      visiting.add(step.id);
+      const dependencies = getConditionDependencies(step.when)
+        .map(id => getSopStep(id, caseFile.case_type))
+        .filter((dep): dep is SopStep => !!dep);
+      const dependencyUnanswerable = dependencies.every(dep => getStepStatus(dep, caseFile, visiting) === 'not_applicable');
+      return dependencyUnanswerable ? 'not_applicable' : 'deferred';
     }
-    return false;
   }
+  if (!validateField(step.id, getFieldValue(caseFile, step.id), caseFile.case_type)) return 'missing';
+  // A list stays open until the client says there is no one else
+  if (step.repeat) return isListClosed(caseFile, step.id) ? 'complete' : 'missing';
+  // A value the model was unsure of is read back before the step counts
+  return needsConfirmation(caseFile, step.id) ? 'missing' : 'complete';
+};
 
-  // 3. Complex Struct Logic (Existing)
+// ============================================================================
+// LIST STEPS ("anyone else?" loops)
+// ============================================================================
 
-  // A. FAULT ADMISSION: If Yes, need statement.
-  if (fieldId === 'liability.fault_admission') {
-    if (value.status === null) return false;
-    // If they admitted fault, we MUST have the statement/quote
-    if (value.status === 'Yes' && !value.statement) return false;
-    return true;
-  }
+export const isListClosed = (caseFile: CaseFile, fieldId: string): boolean =>
+  (caseFile.closed_lists || []).includes(fieldId);
 
-  // B. INJURIES: If Yes, need description.
-  if (fieldId === 'damages.injury_details') {
-    if (value.has_injury === null) return false;
-    if (value.has_injury === true && !value.description) return false;
-    return true;
-  }
+const normalizeKey = (value: any): string => String(value ?? '').trim().toLowerCase();
 
-  // C. HOSPITALIZATION: If Yes, need duration.
-  if (fieldId === 'damages.hospitalization_details') {
-    if (value.was_hospitalized === null) return false;
-    if (value.was_hospitalized === true && !value.duration) return false;
-    return true;
-  }
+/**
+ * Merges a list answer (`{ items, no_more }`, new entries only) into the list
+ * already on the case file. Entries matching an existing one on the step's
+ * `repeat.key` fill its blank members instead of being added twice.
+ */
+export const mergeListAnswer = (
+  caseFile: CaseFile,
+  fieldId: string,
+  answer: { items?: any[] | null; no_more?: boolean | null }
+): { items: any[]; closed: boolean } => {
+  const key = getSopStep(fieldId, caseFile.case_type)?.repeat?.key ?? 'name';
+  const items: any[] = [...(getFieldValue(caseFile, fieldId) || [])];
+
+  (answer.items || []).forEach(incoming => {
+    if (!incoming || typeof incoming !== 'object') return;
+    const index = items.findIndex(existing => normalizeKey(existing?.[key]) !== '' && normalizeKey(existing?.[key]) === normalizeKey(incoming[key]));
+    if (index === -1) {
+      items.push(incoming);
+      return;
+    }
+    const merged = { ...items[index] };
+    Object.entries(incoming).forEach(([member, value]) => {
+      if (value !== null && value !== undefined && (merged[member] === null || merged[member] === undefined)) merged[member] = value;
+    });
+    items[index] = merged;
+  });
+
+  return { items, closed: answer.no_more === true };
+};
+
+/**
+ * Responder instruction for a list step that already has entries.
+ */
+const getListInstruction = (step: SopStep, caseFile: CaseFile): string => {
+  const recorded = (getFieldValue(caseFile, step.id) || []).map((item: any) => item?.[step.repeat!.key]).filter(Boolean);
+  return `Already recorded ${step.repeat!.item_label} entries: ${recorded.join(', ')}. Ask ONLY whether there are others. Put only NEW entries in "items"; set "no_more" to true when the user says there are none.`;
+};
+
+// ============================================================================
+// LOW-CONFIDENCE VALUES (read back to the client)
+// ============================================================================
+let confidenceThreshold = DEFAULT_CONFIDENCE_THRESHOLD;
+
+export const setConfidenceThreshold = (threshold: number): void => {
+  confidenceThreshold = Math.max(0, Math.min(1, threshold));
+  console.log('[CONFIDENCE] Threshold updated', confidenceThreshold);
+};
+
+export const getConfidenceThreshold = (): number => confidenceThreshold;
+
+/**
+ * True when the model reported a confidence below the threshold for the field's current value.
+ * Not reported (null) counts as confident, so providers that ignore the key are not held up.
+ */
+export const needsConfirmation = (caseFile: CaseFile, fieldId: string): boolean => {
+  const confidence = caseFile.field_confidence?.[fieldId];
+  return typeof confidence === 'number' && confidence < confidenceThreshold;
+};
+
+/**
+ * Confidence patch from a model's `field_confidence` list, clamped to 0-1.
+ * Every written field gets an entry (null when not reported) so a new value never
+ * inherits the old value's score; `reviewable` fields may be re-scored without a write.
+ */
+export const readFieldConfidence = (
+  reported: unknown,
+  written: string[],
+  reviewable: string[] = []
+): Record<string, number | null> => {
+  const confidence: Record<string, number | null> = {};
+  written.forEach(id => { confidence[id] = null; });
+  (Array.isArray(reported) ? reported : []).forEach(entry => {
+    if (!entry || typeof entry.confidence !== 'number' || !isFinite(entry.confidence)) return;
+    if (!written.includes(entry.field) && !reviewable.includes(entry.field)) return;
+    confidence[entry.field] = Math.max(0, Math.min(1, entry.confidence));
+  });
+  return confidence;
+};
 
-  // D. LOST WAGES: If Yes, need amount.
-  if (fieldId === 'damages.lost_wages_details') {
-    if (value.has_lost_wages === null) return false;
-    if (value.has_lost_wages === true && (value.amount === null || value.amount === 0)) return false;
-    return true;
+/**
+ * A value as read back to the client:
+ * "2026-10-13" -> 2026-10-13, true -> yes, { has_injury: true, description: "whiplash" } -> yes, whiplash
+ */
+export const formatForReadBack = (value: any): string => {
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (value && typeof value === 'object') {
+    return Object.values(value)
+      .filter(v => v !== null && v !== undefined && v !== '')
+      .map(formatForReadBack)
+      .join(', ');
   }
+  return String(value);
+};
 
-  // 3. Default (Primitives) -> If not null, it's done.
-  return true;
+/**
+ * Responder instruction for a step whose value needs confirming.
+ */
+const getConfirmationInstruction = (step: SopStep, caseFile: CaseFile): string =>
+  `Recorded value ${JSON.stringify(getFieldValue(caseFile, step.id))} is uncertain. Ask the user to confirm it. If they confirm, return the same value with confidence 1; if they correct it, return the corrected value.`;
+
+/**
+ * Progress summary over the SOP. Skipped (not applicable) steps are excluded from the total.
+ */
+export const getSopProgress = (caseFile: CaseFile): { completed: number; applicable: number; skipped: number } => {
+  const steps = getActiveSteps(caseFile);
+  let completed = 0;
+  let skipped = 0;
+  steps.forEach(step => {
+    const status = getStepStatus(step, caseFile);
+    if (status === 'complete') completed++;
+    if (status === 'not_applicable') skipped++;
+  });
+  return { completed, applicable: steps.length - skipped, skipped };
 };
 
 /**
  * Scans the CaseFile to identify the next missing field based on the SOP.
+ * Steps that are not applicable (or still waiting on their condition) are passed over.
  */
 export const getNextMissingSlot = (caseFile: CaseFile): string | null => {
   // RULE 1: Kill Switch (Ethics)
   if (caseFile.admin.prior_representation === true) return "REJECT_PRIOR_REP";
-  if (caseFile.status === "REJECTED") return "REJECTED_GENERIC";
-
-  // RULE 2: Linear SOP Scan
-  for (const step of INTAKE_STEPS) {
-    const [vectorKey, fieldKey] = step.id.split('.');
-
-    // Type-safe access to the nested vector
-    const vector = caseFile[vectorKey as keyof CaseFile];
-
-    if (vector && typeof vector === 'object') {
-      // @ts-ignore: Dynamic access based on schema
-      const value = vector[fieldKey];
+  // Same test as isCaseOpen (caseLifecycle imports this module): only open cases keep asking
+  if (caseFile.status !== "QUALIFICATION" && caseFile.status !== "INTAKE") {
+    return caseFile.status === "CLOSED" && !caseFile.referral ? "COMPLETE" : "REJECTED_GENERIC";
+  }
 
-      if (!validateField(step.id, value)) {
-        return step.id;
-      }
-    }
+  // RULE 2: Linear SOP Scan (honoring `when` conditions)
+  for (const step of getActiveSteps(caseFile)) {
+    if (getStepStatus(step, caseFile) === 'missing') return step.id;
   }
 
   // RULE 3: Completion
@@ -112,30 +285,28 @@ export const getNextMissingSlot = (caseFile: CaseFile): string | null => {
 /**
  * Returns the next N missing slots from the SOP.
  * Used to scope the Responder model's context.
+ * Deferred steps are held back until their condition can be decided.
  */
 export const getNextNMissingSlots = (caseFile: CaseFile, n: number = 3): { id: string; instruction: string }[] => {
   const missingSlots: { id: string; instruction: string }[] = [];
 
   // Skip if case is terminated
   if (caseFile.admin.prior_representation === true) return [];
-  if (caseFile.status === "REJECTED") return [];
+  if (caseFile.status !== "QUALIFICATION" && caseFile.status !== "INTAKE") return [];
 
-  for (const step of INTAKE_STEPS) {
+  for (const step of getActiveSteps(caseFile)) {
     if (missingSlots.length >= n) break;
 
-    const [vectorKey, fieldKey] = step.id.split('.');
-    const vector = caseFile[vectorKey as keyof CaseFile];
-
-    if (vector && typeof vector === 'object') {
-      // @ts-ignore: Dynamic access based on schema
-      const value = vector[fieldKey];
-
-      if (!validateField(step.id, value)) {
-        missingSlots.push({
-          id: step.id,
-          instruction: getSystemInstructionForSlot(step.id)
-        });
-      }
+    if (getStepStatus(step, caseFile) === 'missing') {
+      const hasEntries = step.repeat && (getFieldValue(caseFile, step.id) || []).length > 0;
+      missingSlots.push({
+        id: step.id,
+        instruction: hasEntries
+          ? getListInstruction(step, caseFile)
+          : needsConfirmation(caseFile, step.id)
+            ? getConfirmationInstruction(step, caseFile)
+            : getSystemInstructionForSlot(step.id, caseFile.case_type)
+      });
     }
   }
 
@@ -144,88 +315,73 @@ export const getNextNMissingSlots = (caseFile: CaseFile, n: number = 3): { id: s
 
 /**
  * Returns the specific "Goal Instruction" for a given slot.
- * Updated to request Details alongside Booleans.
- */
-export const getSystemInstructionForSlot = (slot: string): string => {
-  switch (slot) {
-    // CONTACT
-    case "contact.full_name": return "Ask ONLY for the user's full legal name.";
-    case "contact.email": return "Ask ONLY for the user's email address.";
-
-    // ADMIN
-    case "admin.prior_representation": return "Ask if the user already has an attorney. Critical stop question.";
-    case "admin.conflict_party": return "Ask for the FULL NAME of the party they are suing (for conflict check).";
-
-    // INCIDENT
-    case "incident.accident_date": return "Ask for the date of the accident.";
-    case "incident.accident_time": return "Ask for the approximate time of day.";
-    case "incident.location_jurisdiction": return "Ask for the City and State where the incident occurred.";
-    case "incident.weather_conditions": return "Ask about weather conditions.";
-    case "incident.vehicle_description": return "Ask for details of the user's vehicle (Year, Make, Model).";
-    case "incident.police_report_filed": return "Ask if a police report was filed.";
-
-    // LIABILITY
-    case "liability.claimant_role": return "Ask if they were driver, passenger, or pedestrian.";
-    case "liability.fault_admission": return "Ask if the other driver admitted fault. IF YES: Ask exactly what they said. IF NO: Just confirm no.";
-    case "liability.citation_issued": return "Ask if the other driver received a citation.";
-    case "liability.witness_presence": return "Ask if there were independent witnesses.";
-
-    // DAMAGES (COMPLEX)
-    case "damages.injury_details": return "Ask if they were injured. IF YES: You MUST get a description of the injuries. IF NO: Confirm no injuries.";
-    case "damages.medical_treatment": return "Ask if they saw a doctor or went to urgent care.";
-    case "damages.hospitalization_details": return "Ask if they were hospitalized. IF YES: Ask for how long (duration).";
-    case "damages.lost_wages_details": return "Ask if they lost income/wages. IF YES: Ask for the approximate amount lost.";
-
-    // CLOSING
-    case "admin.insurance_status": return "Ask if the other party is insured.";
-
-    // TERMINAL
-    case "REJECT_PRIOR_REP": return "Explain we cannot represent them (already represented). Close.";
-    case "REJECTED_GENERIC": return "Politely explain we cannot proceed. Close.";
-    case "COMPLETE": return "Inform user intake is complete.";
-    default: return "Gather the missing information.";
-  }
+ * Terminal states (REJECT_PRIOR_REP, REJECTED_GENERIC, COMPLETE) come from the SOP document too.
+ */
+export const getSystemInstructionForSlot = (slot: string, caseTypeId: CaseTypeId | null = null): string => {
+  const sop = getCaseType(caseTypeId).sop;
+  return getSopStep(slot, caseTypeId)?.instruction
+    ?? sop.terminal_instructions[slot]
+    ?? sop.defaults.instruction;
 };
 
 /**
  * Returns a polite, template-based question for a given slot.
  * USED WHEN: The user has filled the previous scope completely > we skip LLM generation > we append this.
+ * Pass the case file to get the "anyone else?" question for a list that already has entries,
+ * or the read-back question for a value that needs confirming.
  */
-export const getTemplateQuestionForSlot = (slot: string): string => {
-  switch (slot) {
-    // CONTACT
-    case "contact.full_name": return "Could you please provide your full legal name?";
-    case "contact.email": return "What is the best email address to reach you at?";
-
-    // ADMIN
-    case "admin.prior_representation": return "Do you currently have an attorney representing you for this matter?";
-    case "admin.conflict_party": return "What is the full legal name of the party you are filing a claim against?";
-
-    // INCIDENT
-    case "incident.accident_date": return "What was the date of the accident?";
-    case "incident.accident_time": return "Approximately what time did the accident occur?";
-    case "incident.location_jurisdiction": return "In which City and State did the incident happen?";
-    case "incident.weather_conditions": return "What were the weather conditions like at the time?";
-    case "incident.vehicle_description": return "Could you describe your vehicle (Year, Make, Model)?";
-    case "incident.police_report_filed": return "Was a police report filed at the scene?";
-
-    // LIABILITY
-    case "liability.claimant_role": return "Were you the driver, a passenger, or a pedestrian?";
-    case "liability.fault_admission": return "Did the other driver admit fault at the scene? If so, what exactly did they say?";
-    case "liability.citation_issued": return "Was the other driver issued a citation?";
-    case "liability.witness_presence": return "Were there any independent witnesses present?";
-
-    // DAMAGES
-    case "damages.injury_details": return "Did you sustain any injuries? If yes, please briefly describe them.";
-    case "damages.medical_treatment": return "Have you sought medical treatment or gone to urgent care?";
-    case "damages.hospitalization_details": return "Were you hospitalized after the accident? If so, for how long?";
-    case "damages.lost_wages_details": return "Have you lost any income or wages due to this accident? If yes, approximately how much?";
-
-    // CLOSING
-    case "admin.insurance_status": return "Do you know if the other party is insured?";
-
-    default: return "Could you please provide the missing information?";
+export const getTemplateQuestionForSlot = (slot: string, caseTypeId: CaseTypeId | null = null, caseFile?: CaseFile): string => {
+  const step = getSopStep(slot, caseTypeId);
+  if (step?.repeat && caseFile && (getFieldValue(caseFile, slot) || []).length > 0) return step.repeat.more_question;
+  if (step && caseFile && !step.repeat && needsConfirmation(caseFile, slot) && getFieldValue(caseFile, slot) !== null) {
+    return `Just to confirm, ${step.label.toLowerCase()}: ${formatForReadBack(getFieldValue(caseFile, slot))}. Is that right?`;
   }
+  return step?.template_question ?? getCaseType(caseTypeId).sop.defaults.template_question;
+};
+
+/**
+ * Returns the extraction constraint line for a slot, as shown to the Responder.
+ */
+export const getConstraintForSlot = (slot: string, caseTypeId: CaseTypeId | null = null): string => {
+  const constraint = getSopStep(slot, caseTypeId)?.constraint;
+  return constraint ? ` - ${slot}: ${constraint}` : ` - ${slot}`;
 };
 
+/**
+ * A model patch without one SOP field (and its confidence entry), plus the value removed.
+ * Used to hold back writes to locked or stale fields.
+ */
+export const omitPatchField = (patch: Partial<CaseFile>, fieldId: string): { patch: Partial<CaseFile>; value: any } => {
+  const [vector, field] = fieldId.split('.');
+  const filtered: any = { ...patch };
+  let value: any = undefined;
+  if (filtered[vector] && typeof filtered[vector] === 'object' && field in filtered[vector]) {
+    const { [field]: removed, ...rest } = filtered[vector];
+    value = removed;
+    filtered[vector] = rest;
+  }
+  if (filtered.field_confidence && fieldId in filtered.field_confidence) {
+    const { [fieldId]: _removed, ...rest } = filtered.field_confidence;
+    filtered.field_confidence = rest;
+  }
+  return { patch: filtered, value };
+};
 
+/**
+ * Applies a Partial<CaseFile> patch with a shallow merge per vector.
+ * Vectors are merged key by key so a patch never wipes sibling fields;
+ * top-level scalars (status, case_type, ...) are replaced.
+ */
+export const mergeCaseFilePatch = (caseFile: CaseFile, patch: Partial<CaseFile>): CaseFile => {
+  const updated: any = { ...caseFile };
+  Object.entries(patch || {}).forEach(([key, value]) => {
+    if (value === undefined) return;
+    const current = updated[key];
+    if (value && typeof value === 'object' && !Array.isArray(value) && current && typeof current === 'object') {
+      updated[key] = { ...current, ...value };
+    } else {
+      updated[key] = value;
+    }
+  });
+  return updated as CaseFile;
+};
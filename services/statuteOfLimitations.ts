@@ -0,0 +1,111 @@
+import { CaseFile, SolAssessment, SolRule } from '../types';
+import { SOL_URGENT_THRESHOLD_DAYS, US_STATES } from '../constants';
+import { SOL_RULES } from './solRules';
+import { isCaseOpen, transitionStatus } from './caseLifecycle';
+import { toLocalIsoDate } from './fieldValidators';
+
+/**
+ * ------------------------------------------------------------------
+ * STATUTE OF LIMITATIONS ENGINE (Symbolic Part)
+ * ------------------------------------------------------------------
+ * Runs whenever the accrual date or jurisdiction may have changed:
+ * 1. Takes the state from `incident.location_normalized` (see jurisdictionParser.ts).
+ * 2. Picks the rule for (state, case type), falling back to the state's default row.
+ * 3. Computes the filing deadline and days remaining from the accrual date.
+ * 4. Expired claims leave the intake: REFERRED (attorney review) when a
+ *    discovery rule may still save the claim, REJECTED otherwise.
+ */
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseIsoDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string' || !ISO_DATE.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toIsoDate = (date: Date): string => date.toISOString().split('T')[0];
+
+// The client's local calendar day (as the date validators see it), at UTC midnight like parsed dates
+const startOfLocalDay = (date: Date): Date => parseIsoDate(toLocalIsoDate(date))!;
+
+/**
+ * Adds whole months, clamping to the last day of the target month (Feb 29 + 1y -> Feb 28).
+ */
+const addMonths = (date: Date, months: number): Date => {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+};
+
+/**
+ * The rule for a state and case type, falling back to the state's general personal injury row.
+ */
+export const findSolRule = (state: string, caseType: CaseFile['case_type']): SolRule | undefined =>
+  SOL_RULES.find(rule => rule.state === state && rule.claim_type === caseType)
+  ?? SOL_RULES.find(rule => rule.state === state && rule.claim_type === 'default');
+
+/**
+ * Computes the limitations position of the case.
+ * Null while the state or a valid accrual date is still unknown.
+ */
+export const assessStatuteOfLimitations = (caseFile: CaseFile, today: Date = new Date()): SolAssessment | null => {
+  const state = caseFile.incident.location_normalized?.state;
+  const incidentDate = parseIsoDate(caseFile.incident.accident_date);
+  if (!state || !incidentDate) return null;
+
+  const rule = findSolRule(state, caseFile.case_type);
+  if (!rule) return null;
+
+  // Discovery rule: accrual moves to the discovery date when we have one
+  const discoveryDate = rule.discovery_rule ? parseIsoDate(caseFile.malpractice?.discovery_date) : null;
+  const accrual = discoveryDate && discoveryDate > incidentDate ? discoveryDate : incidentDate;
+
+  const deadline = addMonths(accrual, Math.round(rule.years * 12));
+  const assessedOn = startOfLocalDay(today);
+  const daysRemaining = Math.round((deadline.getTime() - assessedOn.getTime()) / DAY_MS);
+
+  return {
+    state,
+    claim_type: rule.claim_type,
+    limitation_years: rule.years,
+    accrual_date: toIsoDate(accrual),
+    accrual_basis: accrual === incidentDate ? 'incident' : 'discovery',
+    deadline: toIsoDate(deadline),
+    days_remaining: daysRemaining,
+    status: daysRemaining < 0 ? 'EXPIRED' : daysRemaining <= SOL_URGENT_THRESHOLD_DAYS ? 'URGENT' : 'OPEN',
+    tolling_notes: rule.tolling_notes,
+    assessed_on: toIsoDate(assessedOn)
+  };
+};
+
+/**
+ * Recomputes the assessment and returns the patch to apply:
+ * always `sol`, plus the status transition when an open case has expired.
+ */
+export const applyStatuteOfLimitations = (caseFile: CaseFile, today: Date = new Date()): Partial<CaseFile> => {
+  const sol = assessStatuteOfLimitations(caseFile, today);
+
+  if (sol?.status === 'EXPIRED' && isCaseOpen(caseFile)) {
+    const rule = findSolRule(sol.state, caseFile.case_type);
+    const reason = `Statute of limitations expired on ${sol.deadline} (${sol.limitation_years}-year period in ${sol.state}).`;
+    const transition = rule?.discovery_rule
+      ? transitionStatus(caseFile, 'REFERRED', 'system', `${reason} Referred for attorney review: discovery rule may apply.`, today.getTime())
+      : transitionStatus(caseFile, 'REJECTED', 'system', reason, today.getTime());
+    return { sol, ...transition };
+  }
+  return { sol };
+};
+
+/**
+ * Closing message for a case the SOL engine took out of the intake.
+ */
+export const getSolClosingMessage = (sol: SolAssessment, status: CaseFile['status']): string => {
+  const stateName = US_STATES[sol.state] || sol.state;
+  if (status === 'REFERRED') {
+    return `Thank you. Based on the dates you gave, the usual filing deadline in ${stateName} may have passed, but there are exceptions that could apply. I am passing your details to one of our attorneys, who will review them and contact you.`;
+  }
+  return `Thank you for your patience. Unfortunately, the deadline to file this kind of claim in ${stateName} appears to have passed on ${sol.deadline}, so we are not able to take your case. You may wish to consult another attorney promptly for a second opinion.`;
+};
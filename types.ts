@@ -29,6 +29,36 @@ export interface LostWagesDetails {
   amount: number | null; // e.g., 5000
 }
 
+// List items (collected by "anyone else?" steps, see SopStep.repeat)
+
+export interface Party {
+  name: string | null;   // Person or company, conflict-checked
+  role: 'Driver' | 'Owner' | 'Employer' | 'Business' | 'Medical Provider' | 'Other' | null;
+  insurer: string | null;
+}
+
+export interface Vehicle {
+  description: string | null; // e.g., "Blue Ford F-150"
+  driver_name: string | null;
+}
+
+export interface Witness {
+  name: string | null;
+  phone: string | null;  // E.164 when given
+  email: string | null;
+}
+
+export interface MedicalProvider {
+  name: string | null;   // e.g., "St. Mary's Hospital"
+  type: 'Hospital' | 'Emergency Room' | 'Urgent Care' | 'Primary Care' | 'Chiropractor' | 'Physical Therapy' | 'Specialist' | 'Other' | null;
+}
+
+export interface MedicalBill {
+  description: string | null; // e.g., "ER visit", "MRI"
+  provider: string | null;
+  amount: number | null;      // USD
+}
+
 // --- 2. DOMAIN VECTORS ---
 
 /**
@@ -36,8 +66,23 @@ export interface LostWagesDetails {
  */
 export interface ContactVector {
   full_name: string | null;
-  phone_number: string | null;
+  phone_number: string | null;   // STRICT E.164, e.g. "+15551234567"
   email: string | null;
+  preferred_contact_method: 'Phone' | 'Text' | 'Email' | null;
+  best_time_to_call: string | null; // e.g. "Weekday mornings" (phone/text only)
+}
+
+/**
+ * One-time-code check of the client's phone number (see services/contactVerification.ts).
+ * The code itself is never stored on the CaseFile.
+ */
+export interface ContactVerification {
+  channel: 'sms';
+  destination: string;           // Number the code was sent to
+  status: 'PENDING' | 'VERIFIED' | 'FAILED' | 'SKIPPED';
+  attempts: number;              // Wrong codes entered so far
+  sent_at: number | null;
+  verified_at: number | null;
 }
 
 /** 
@@ -49,7 +94,20 @@ export interface IncidentVector {
   location_jurisdiction: string | null; // City/State for legal jurisdiction logic
   police_report_filed: boolean | null;
   weather_conditions: string | null;
-  vehicle_description: string | null; // e.g., "2015 Red Toyota Camry"
+  vehicle_description: string | null; // e.g., "2015 Red Toyota Camry" (auto accidents only)
+  other_vehicles: Vehicle[] | null;   // LIST: every other vehicle involved (auto accidents only)
+  location_normalized: NormalizedLocation | null; // Parsed from location_jurisdiction (never asked directly)
+}
+
+/**
+ * Structured jurisdiction resolved by the offline parser (services/jurisdictionParser.ts).
+ */
+export interface NormalizedLocation {
+  city: string | null;    // null when only a county was given
+  county: string | null;  // null when the city is not in the gazetteer
+  state: string;          // USPS code, e.g. "IL"
+  country: 'US';
+  raw: string;            // Text it was parsed from
 }
 
 /** 
@@ -59,7 +117,8 @@ export interface LiabilityVector {
   fault_admission: FaultAdmission; // STRUCT
   citation_issued: boolean | null;
   witness_presence: boolean | null;
-  claimant_role: 'Driver' | 'Passenger' | 'Pedestrian' | null;
+  witnesses: Witness[] | null;     // LIST: asked when witness_presence is true
+  claimant_role: 'Driver' | 'Passenger' | 'Pedestrian' | null; // auto accidents only
 }
 
 /** 
@@ -72,16 +131,114 @@ export interface DamagesVector {
   lost_wages_details: LostWagesDetails; // STRUCT
 }
 
+/**
+ * MEDICAL: Treatment history and bills (asked when damages.medical_treatment is true).
+ * The medical specials total is computed from `bills` (services/damagesCalculator.ts).
+ */
+export interface MedicalVector {
+  providers: MedicalProvider[] | null;    // LIST
+  first_treatment_date: string | null;    // STRICT ISO8601 YYYY-MM-DD
+  treatment_ongoing: boolean | null;
+  last_treatment_date: string | null;     // STRICT ISO8601 YYYY-MM-DD (only when treatment has ended)
+  bills: MedicalBill[] | null;            // LIST (may be empty: no bills received yet)
+}
+
 /** 
  * ADMIN: Ethics and qualification rules. 
  */
 export interface AdministrativeVector {
   insurance_status: boolean | null;
   prior_representation: boolean | null; // STOP CONDITION: We cannot talk if represented.
-  conflict_party: string | null;        // Defendant name for conflict checks
+  adverse_parties: Party[] | null;      // LIST: everyone the claim may be against (each conflict-checked)
+}
+
+// --- 3. PRACTICE-AREA VECTORS ---
+// Contributed by a case type (see services/caseTypeRegistry.ts) and only
+// present on the CaseFile once that type is active.
+
+/**
+ * PREMISES: Slip-and-fall / premises liability facts.
+ */
+export interface PremisesVector {
+  property_type: 'Commercial' | 'Residential' | 'Public' | null;
+  property_owner: string | null;
+  hazard_description: string | null;      // e.g., "Wet floor near entrance"
+  warning_signs_present: boolean | null;
+  incident_reported_to_owner: boolean | null;
+}
+
+/**
+ * ANIMAL: Dog bite facts.
+ */
+export interface AnimalVector {
+  animal_owner: string | null;
+  animal_description: string | null;      // e.g., "Large German Shepherd"
+  prior_aggression_known: boolean | null;
+  animal_control_notified: boolean | null;
+}
+
+/**
+ * MALPRACTICE: Medical negligence facts.
+ */
+export interface MalpracticeVector {
+  provider_name: string | null;
+  facility_name: string | null;
+  procedure_description: string | null;
+  error_description: string | null;
+  discovery_date: string | null;          // STRICT ISO8601 YYYY-MM-DD
+}
+
+/**
+ * EMPLOYMENT: Workers' compensation facts.
+ */
+export interface EmploymentVector {
+  employer_name: string | null;
+  job_title: string | null;
+  on_the_job: boolean | null;
+  injury_reported_to_employer: boolean | null;
+  report_date: string | null;             // STRICT ISO8601 YYYY-MM-DD
+}
+
+/**
+ * Practice areas the firm runs intake for.
+ */
+export type CaseTypeId = 'auto_accident' | 'slip_and_fall' | 'dog_bite' | 'medical_malpractice' | 'workers_comp';
+
+/**
+ * Result of routing the opening messages to a practice area.
+ * Low-confidence results stay unconfirmed until the client agrees.
+ */
+export interface CaseClassification {
+  case_type: CaseTypeId | 'out_of_scope' | null; // null -> could not tell
+  confidence: number;                            // 0..1
+  method: 'llm' | 'keyword' | 'manual';
+  confirmed: boolean;
+  reasoning: string | null;
 }
 
-// --- 3. THE CASE FILE ---
+// --- 4. THE CASE FILE ---
+
+/**
+ * Lifecycle of a case:
+ * QUALIFICATION -> INTAKE -> CLOSED, with REJECTED / REFERRED as exits.
+ */
+export type CaseStatus = 'QUALIFICATION' | 'INTAKE' | 'REJECTED' | 'REFERRED' | 'CLOSED';
+
+/**
+ * Who moved the case: the symbolic rules, one of the two models, the case type router, or intake staff.
+ */
+export type StatusActor = 'system' | 'responder' | 'thinker' | 'router' | 'staff';
+
+/**
+ * One entry of the status history.
+ */
+export interface StatusTransition {
+  from: CaseStatus;
+  to: CaseStatus;
+  at: number;        // Epoch ms
+  actor: StatusActor;
+  reason: string;
+}
 
 /**
  * The core state object representing a legal case.
@@ -89,16 +246,405 @@ export interface AdministrativeVector {
  */
 export interface CaseFile {
   case_id: string;
-  status: 'QUALIFICATION' | 'INTAKE' | 'REJECTED' | 'REFERRED' | 'CLOSED';
+  version: number;               // Bumped on every committed update (see services/caseVersioning.ts)
+  field_versions?: Record<string, number>; // Version at which each SOP field last changed
+  stale_corrections?: StaleCorrection[];   // Thinker corrections discarded because the field changed after the audit snapshot
+  audit_corrections?: AuditCorrection[];   // Thinker corrections, applied or held for staff review (see services/auditReview.ts)
+  clarifications?: Clarification[];        // Thinker questions for the client (see services/clarifications.ts)
+  status: CaseStatus;
+  status_history?: StatusTransition[]; // Oldest first (see services/caseLifecycle.ts)
   rejection_reason?: string;
+  case_type: CaseTypeId | null;  // Active practice area (null -> not yet routed)
+  classification?: CaseClassification;
+  sol?: SolAssessment | null;    // Statute of limitations (recomputed whenever date/jurisdiction change)
+  contact_verification?: ContactVerification | null;
+  referral?: Referral | null;    // Partner firm the case was passed to (status REFERRED)
+  closed_lists?: string[];       // List steps the client closed ("no one else"), e.g. "admin.adverse_parties"
+  provenance?: FieldProvenance[]; // Every model write to an SOP field, oldest first
+  field_confidence?: Record<string, number | null>; // Model certainty (0-1) of the current value per SOP field; null = not reported
+  locked_fields?: string[];      // Fields set by intake staff; model patches skip them until unlocked
+  override_history?: FieldOverride[]; // Staff edits and unlocks, oldest first
   contact: ContactVector;
   incident: IncidentVector;
   liability: LiabilityVector;
   damages: DamagesVector;
+  medical: MedicalVector;
   admin: AdministrativeVector;
+
+  // Practice-area vectors (present only for the matching case type)
+  premises?: PremisesVector;
+  animal?: AnimalVector;
+  malpractice?: MalpracticeVector;
+  employment?: EmploymentVector;
+}
+
+// --- 5. SOP DEFINITION ---
+
+/**
+ * Applicability condition for an SOP step, evaluated over the current CaseFile.
+ * `field` is a dot path that may reach into structs (e.g. "damages.injury_details.has_injury").
+ * Conditions combine with `all` / `any`.
+ */
+export type SopCondition =
+  | { field: string; equals?: any; not_equals?: any; in?: any[]; not_in?: any[] }
+  | { all: SopCondition[] }
+  | { any: SopCondition[] };
+
+/**
+ * Runtime status of a step for a given CaseFile.
+ * - complete: value present and valid
+ * - missing: applicable and still needs an answer (or a low-confidence value to confirm)
+ * - not_applicable: `when` condition evaluated to false (skipped, counts as done)
+ * - deferred: `when` depends on a field that has not been answered yet
+ */
+export type StepStatus = 'complete' | 'missing' | 'not_applicable' | 'deferred';
+
+/**
+ * A single step of the Standard Operating Procedure.
+ * Loaded from the declarative SOP documents (sop/*.sop.json) so that
+ * ordering, wording and constraints live in one place.
+ */
+export interface SopStep {
+  id: string;                 // Dot-notation field path, e.g. "contact.full_name"
+  label: string;              // Human readable label for the Visualizer
+  vector: string;             // Display name of the owning vector
+  instruction: string;        // Goal instruction injected into the Responder prompt
+  template_question: string;  // Polite question appended when the previous scope is complete
+  constraint?: string;        // Extra extraction constraint shown to the Responder
+  validator: string;          // Key into the symbolic validator table
+  when?: SopCondition;        // Step is only asked when this holds
+  repeat?: SopRepeat;         // List step: keeps asking "anyone else?" until the client says no
+}
+
+/**
+ * Settings of a list step. The Responder extracts `{ items, no_more }`:
+ * new items are appended (matched on `key`), `no_more` closes the list.
+ */
+export interface SopRepeat {
+  key: string;                // Item member identifying an entry, e.g. "name"
+  item_label: string;         // e.g. "party", shown to the Responder
+  more_question: string;      // Asked once the list has entries, e.g. "Was anyone else involved?"
+}
+
+/**
+ * Machine-readable reason a value was refused by a field validator.
+ */
+export type ValidationCode =
+  | 'required'            // A struct member (flag) is unanswered
+  | 'wrong_type'
+  | 'too_short'
+  | 'invalid_email'
+  | 'invalid_phone'       // Not E.164
+  | 'invalid_date'        // Not YYYY-MM-DD / not a calendar date
+  | 'date_in_future'
+  | 'date_too_old'        // Before 1900
+  | 'not_positive'
+  | 'out_of_range'
+  | 'not_in_enum'
+  | 'missing_dependent'   // e.g. has_lost_wages = true but no amount
+  | 'too_few_items'       // List below its minimum size
+  | 'ambiguous_location'
+  | 'incomplete_location';
+
+/**
+ * Outcome of validating one field. Failures carry the code plus a
+ * client-facing message the Responder uses as the re-ask.
+ */
+export interface FieldValidationResult {
+  valid: boolean;
+  code?: ValidationCode;
+  message?: string;
+  member?: string;        // Struct member at fault, e.g. "amount"
+}
+
+/**
+ * The fully loaded and validated SOP document.
+ */
+export interface SopDefinition {
+  name: string;
+  version: number;
+  steps: SopStep[];
+  terminal_instructions: Record<string, string>; // REJECT_PRIOR_REP, REJECTED_GENERIC, COMPLETE
+  defaults: {
+    instruction: string;
+    template_question: string;
+  };
+}
+
+// --- 6. CASE TYPES ---
+
+/**
+ * A registered practice area. Each type contributes its own vectors,
+ * SOP steps, schema definitions and Thinker audit rules; the FSM,
+ * schema builder and Visualizer work over whichever type is active.
+ */
+export interface CaseTypeDefinition {
+  id: CaseTypeId;
+  label: string;
+  description: string;
+  sop: SopDefinition;                                   // Shared opening + type steps + shared closing
+  vectors: Record<string, Record<string, any>>;         // Initial values of the vectors this type adds
+  schemaDefinitions: Record<string, any>;               // Vector/field schema additions (Gemini Type format)
+  auditRules: string[];                                 // Extra Thinker instructions for this practice area
+  keywords: string[];                                   // Offline classifier vocabulary (lowercase)
+}
+
+/**
+ * A case type as authored (before registration): the raw SOP document is
+ * composed with the shared steps and validated by the registry.
+ */
+export type CaseTypeModule = Omit<CaseTypeDefinition, 'sop'> & { sopDocument: any };
+
+// --- 7. STATUTE OF LIMITATIONS ---
+
+/**
+ * One row of the limitations table (see services/solRules.ts).
+ * `claim_type: 'default'` covers every practice area without its own row.
+ */
+export interface SolRule {
+  state: string;                       // USPS code, e.g. "CA"
+  claim_type: CaseTypeId | 'default';
+  years: number;                       // Limitation period (fractions allowed, e.g. 2.5)
+  discovery_rule?: boolean;            // Clock starts at discovery of the harm, not the incident
+  tolling_notes: string;               // Exceptions an attorney must review (minors, notice, ...)
+}
+
+/**
+ * - OPEN: deadline ahead
+ * - URGENT: deadline within SOL_URGENT_THRESHOLD_DAYS
+ * - EXPIRED: deadline passed
+ */
+export type SolStatus = 'OPEN' | 'URGENT' | 'EXPIRED';
+
+/**
+ * Result of running the SOL engine over the case file.
+ */
+export interface SolAssessment {
+  state: string;
+  claim_type: CaseTypeId | 'default';
+  limitation_years: number;
+  accrual_date: string;                // STRICT ISO8601 YYYY-MM-DD
+  accrual_basis: 'incident' | 'discovery';
+  deadline: string;                    // STRICT ISO8601 YYYY-MM-DD
+  days_remaining: number;              // Negative once expired
+  status: SolStatus;
+  tolling_notes: string;
+  assessed_on: string;                 // Date the engine ran (YYYY-MM-DD)
+}
+
+// --- 8. REFERRALS ---
+
+/**
+ * Why a case we decline is passed to a partner firm.
+ */
+export type ReferralReason = 'prior_representation' | 'conflict' | 'out_of_jurisdiction';
+
+/**
+ * One firm of the local referral directory (see services/referralDirectory.ts).
+ */
+export interface ReferralPartner {
+  id: string;
+  name: string;
+  practice_areas: CaseTypeId[];
+  states: string[];                    // USPS codes served
+  nationwide?: boolean;                // Takes cases from any state (fallback when none matches)
+  phone: string;                       // E.164
+  email: string;
+  website?: string;
+}
+
+/**
+ * The referral recorded on the case file.
+ */
+export interface Referral {
+  partner_id: string;
+  partner_name: string;
+  partner_phone: string;
+  partner_email: string;
+  reason: ReferralReason;
+  referred_at: number;                 // Epoch ms
+  consent: boolean | null;             // Client agreed to share their details (null -> not answered yet)
+}
+
+/**
+ * What is sent to the partner firm once the client consents.
+ * Only the client's own details and the facts of the matter: no conflict
+ * party, internal reasons, status history or audit data.
+ */
+export interface ReferralPacket {
+  case_id: string;
+  generated_at: string;                // ISO8601
+  partner: { id: string; name: string };
+  case_type: CaseTypeId | null;
+  contact: Pick<ContactVector, 'full_name' | 'email' | 'phone_number' | 'preferred_contact_method' | 'best_time_to_call'>;
+  incident: Pick<IncidentVector, 'accident_date' | 'location_jurisdiction' | 'location_normalized'>;
+  injury_description: string | null;
+  sol_deadline: string | null;         // YYYY-MM-DD (attorney must verify)
+}
+
+// --- 9. CASE SCORING ---
+
+/**
+ * Liability and damages signals the qualification score is built from.
+ */
+export type ScoreFactorId =
+  | 'fault_admission'
+  | 'citation_issued'
+  | 'witness_presence'
+  | 'injury_severity'
+  | 'hospitalization'
+  | 'lost_wages';
+
+/**
+ * - A: pursue (priority attorney review)
+ * - B: review
+ * - C: weak / likely decline
+ */
+export type QualificationTier = 'A' | 'B' | 'C';
+
+/**
+ * Per-firm scoring settings (see DEFAULT_SCORING_CONFIG in constants.ts).
+ */
+export interface ScoringConfig {
+  weights: Record<ScoreFactorId, number>;     // Relative importance (normalized to 100)
+  tier_thresholds: { A: number; B: number };  // Minimum score (0-100) for each tier
+  lost_wages_full_credit: number;             // Lost wages amount (USD) earning the full factor
+}
+
+/**
+ * One line of the score explanation.
+ */
+export interface ScoreFactor {
+  id: ScoreFactorId;
+  label: string;
+  points: number;    // Contribution to the 0-100 score
+  max_points: number;
+  detail: string;    // Why, e.g. "Hospitalized 3 days"
+}
+
+/**
+ * Output of the scoring module (derived from the case file, never stored on it).
+ */
+export interface CaseScore {
+  score: number;     // 0-100
+  tier: QualificationTier;
+  factors: ScoreFactor[];
+  answered: number;  // Factors with data so far (score is provisional until all are answered)
+}
+
+// --- 10. PROVENANCE ---
+
+/**
+ * Where a field value came from (see services/provenance.ts).
+ * One entry per write, so a field corrected by the Thinker keeps the Responder's original entry.
+ */
+export interface FieldProvenance {
+  field: string;               // SOP step id, e.g. "incident.accident_date"
+  value: any;                  // Value written (null = invalidated)
+  model_role: 'responder' | 'thinker';
+  provider: LLMProvider;
+  model_name: string;
+  message_id: string | null;   // User message the quote was found in
+  quote: string | null;        // Client's own words supporting the value (verbatim, else null)
+  recorded_at: number;         // Epoch ms
+}
+
+/**
+ * Supporting quote returned by a model next to an extracted value.
+ */
+export interface SourceQuote {
+  field: string;
+  quote: string;
 }
 
-// --- 4. COMMUNICATION TYPES ---
+/**
+ * A staff action on a field from the Visualizer (see services/fieldLocks.ts).
+ * An edit locks the field; `unlock` hands it back to the models.
+ */
+export interface FieldOverride {
+  field: string;
+  action: 'edit' | 'unlock';
+  from: any;           // Value before the action
+  to: any;             // Value after (same as `from` for unlock)
+  at: number;          // Epoch ms
+}
+
+/**
+ * Certainty reported by a model for an extracted value ("I think it was maybe Tuesday" -> low).
+ * Values below the confidence threshold are confirmed with the client (see services/stateLogic.ts).
+ */
+export interface FieldConfidence {
+  field: string;
+  confidence: number;  // 0-1
+}
+
+// --- 11. VERSIONING ---
+
+/**
+ * A Thinker correction that was not applied: the field changed after the
+ * snapshot the audit was computed from (see services/caseVersioning.ts).
+ */
+export interface StaleCorrection {
+  field: string;
+  value: any;            // The discarded corrected value
+  base_version: number;  // Version the Thinker audited
+  field_version: number; // Version at which the field last changed
+  reason: string;
+  at: number;            // Epoch ms
+}
+
+// --- 12. AUDIT REVIEW ---
+
+/**
+ * How Thinker corrections reach the case file (see services/auditReview.ts):
+ * - auto: applied immediately
+ * - review_overwrites: filling an empty field is applied; changing or invalidating a value waits for staff
+ * - review_all: every correction waits for staff
+ */
+export type AuditReviewPolicy = 'auto' | 'review_overwrites' | 'review_all';
+
+export type AuditCorrectionStatus =
+  | 'applied'     // Applied by policy
+  | 'pending'     // Waiting for staff
+  | 'accepted'    // Applied by staff
+  | 'rejected'    // Refused by staff (never re-proposed)
+  | 'superseded'; // Replaced by a later proposal for the same field
+
+/**
+ * One Thinker correction to one SOP field, shown to staff as a diff.
+ */
+export interface AuditCorrection {
+  id: string;                            // `${field}@${proposed_at}`
+  field: string;
+  from: any;                             // Value when proposed
+  to: any;                               // Corrected value (null = invalidated)
+  reasoning: string;                     // audit_reasoning of the audit that proposed it
+  confidence: number | null;             // Thinker confidence for `to`
+  provenance: FieldProvenance | null;    // Appended to the log once applied
+  status: AuditCorrectionStatus;
+  proposed_at: number;                   // Epoch ms
+  resolved_at: number | null;            // Epoch ms (applied, accepted, rejected or superseded)
+}
+
+// --- 13. CLARIFICATIONS ---
+
+/**
+ * A Thinker `verification_prompt`, asked by the Responder in the next turn
+ * (see services/clarifications.ts).
+ */
+export interface Clarification {
+  id: string;                  // `clarification@${raised_at}`
+  prompt: string;              // Question for the client
+  issue: string | null;        // flagged_issue (internal note)
+  fields: string[];            // SOP fields it concerns (from validation_errors)
+  base_version: number;        // CaseFile.version of the audited snapshot
+  status: 'pending' | 'asked' | 'resolved' | 'superseded';
+  raised_at: number;           // Epoch ms
+  asked_at: number | null;
+  resolved_at: number | null;
+}
+
+// --- 14. COMMUNICATION TYPES ---
 
 /**
  * Represents a single message in the chat history.
@@ -120,6 +666,8 @@ export interface IntakeTurnResponse {
   extracted_data: Partial<CaseFile>;
   next_system_action?: string;  // Optional - removed from responder for latency
   response_text: string;
+  provenance?: FieldProvenance[];  // Where the extracted values came from (appended by the caller)
+  base_version?: number;           // CaseFile.version the turn was computed from
 }
 
 /**
@@ -128,9 +676,14 @@ export interface IntakeTurnResponse {
 export interface AuditResponse {
   audit_reasoning: string;
   corrected_data: Partial<CaseFile>;
+  invalidated_fields?: string[];   // Fields to clear and re-ask (folded into corrected_data as nulls)
   flagged_issue: string | null;
   verification_prompt: string | null;
   validation_errors?: ValidationError[];
+  source_quotes?: SourceQuote[];
+  field_confidence?: FieldConfidence[];
+  provenance?: FieldProvenance[];  // Built from corrected_data + source_quotes
+  base_version?: number;           // CaseFile.version of the audited snapshot
 }
 
 /**
@@ -174,16 +727,18 @@ export interface LogEntry {
  * - local: Uses Ollama for local LLM inference
  * - openai: Uses OpenAI API with user-provided API key
  * - claude: Uses Anthropic Claude API with user-provided API key
+ * - openai_compatible: Any server speaking the OpenAI API (vLLM, LM Studio, llama.cpp server)
  */
-export type LLMProvider = 'internal' | 'local' | 'openai' | 'claude';
+export type LLMProvider = 'internal' | 'local' | 'openai' | 'claude' | 'openai_compatible';
 
 /**
  * Configuration for LLM provider.
  */
 export interface LLMConfig {
   provider: LLMProvider;
-  apiKey?: string;           // For OpenAI/Claude user-provided keys
+  apiKey?: string;           // For OpenAI/Claude user-provided keys (optional for OpenAI-compatible servers)
   localEndpoint?: string;    // For Ollama (default: http://localhost:11434)
+  baseUrl?: string;          // For OpenAI-compatible servers (e.g. http://localhost:8000/v1)
   modelName?: string;        // Override default model for provider
 }
 
@@ -194,7 +749,19 @@ export const DEFAULT_MODELS: Record<LLMProvider, string> = {
   internal: 'gemini-flash-lite-latest',
   local: 'llama3.2:1b',
   openai: 'gpt-4o-mini',
-  claude: 'claude-3-haiku-20240307'
+  claude: 'claude-3-haiku-20240307',
+  openai_compatible: '' // Whatever the server lists at /v1/models
+};
+
+/**
+ * Default model names per provider for the Thinker (audits the whole case file, so larger models).
+ */
+export const DEFAULT_THINKER_MODELS: Record<LLMProvider, string> = {
+  internal: 'gemini-2.5-flash',
+  local: 'llama3.1:8b',
+  openai: 'gpt-4o',
+  claude: 'claude-3-5-sonnet-20241022',
+  openai_compatible: ''
 };
 
 // ============================================================================